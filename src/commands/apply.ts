@@ -0,0 +1,74 @@
+import {Command, Flags} from '@oclif/core'
+import * as fs from 'node:fs'
+
+import type {DiffActor} from '../lib/parser/types.js'
+
+import {attributionFlags} from '../flags.js'
+import {applyOperations, parseOperations} from '../lib/operations/apply.js'
+import {createDiffMetadata} from '../lib/operations/crud.js'
+import {writeTql} from '../lib/parser/generator.js'
+import {parseTql} from '../lib/parser/index.js'
+import {getDocumentCount, getHeadIndex} from '../lib/parser/types.js'
+
+export default class Apply extends Command {
+  static description = 'Apply a batch of insert/update/delete operations as one new document with one diff'
+  static examples = [
+    `<%= config.bin %> <%= command.id %> --file data.tql --ops ops.jsonl
+✓ Applied 9 operations (9 updates)
+  Documents: 2 → 3
+  Diff: $diff[+1→+2]`,
+    `# ops.jsonl: one operation per line
+{"op":"insert","facet":"context","data":{"key":"timezone","value":"MST"}}
+{"op":"update","facet":"meaning","index":2,"data":{"definition":"Amount in USD"}}
+{"op":"delete","facet":"ambiguity","indices":[1,2]}`,
+  ]
+  static flags = {
+    ...attributionFlags,
+    file: Flags.string({
+      description: 'Path to the TQL file',
+      required: true,
+    }),
+    ops: Flags.string({
+      description: 'Path to a JSON Lines file of operations',
+      required: true,
+    }),
+  }
+
+  async run(): Promise<void> {
+    const {flags} = await this.parse(Apply)
+
+    try {
+      const operations = parseOperations(fs.readFileSync(flags.ops, 'utf8'))
+      const conversation = parseTql(flags.file)
+      const docCountBefore = getDocumentCount(conversation)
+      const headBefore = getHeadIndex(conversation)
+
+      const metadata = createDiffMetadata({
+        actor: flags.actor as DiffActor | undefined,
+        author: flags.author,
+        queryIndex: flags['query-index'],
+        reason: flags.reason,
+      })
+
+      // Every operation is validated before anything is written
+      const updatedConversation = applyOperations(conversation, operations, {metadata})
+      writeTql(flags.file, updatedConversation)
+
+      const counts = ['insert', 'update', 'delete']
+        .map((op) => [op, operations.filter((operation) => operation.op === op).length] as const)
+        .filter(([, count]) => count > 0)
+        .map(([op, count]) => `${count} ${op}${count === 1 ? '' : 's'}`)
+
+      const docCountAfter = getDocumentCount(updatedConversation)
+      this.log(`✓ Applied ${operations.length} operation${operations.length === 1 ? '' : 's'} (${counts.join(', ')})`)
+      this.log(`  Documents: ${docCountBefore} → ${docCountAfter}`)
+      this.log(`  Diff: $diff[+${headBefore}→+${docCountAfter - 1}]`)
+    } catch (error) {
+      if (error instanceof Error) {
+        this.error(`Failed to apply operations: ${error.message}`)
+      }
+
+      throw error
+    }
+  }
+}
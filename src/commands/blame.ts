@@ -0,0 +1,57 @@
+import {Command, Flags} from '@oclif/core'
+
+import type {BlameRow} from '../lib/operations/blame.js'
+
+import {facetFlag} from '../flags.js'
+import {blameFacet, formatBlame} from '../lib/operations/blame.js'
+import {parseTql} from '../lib/parser/index.js'
+
+export default class Blame extends Command {
+  static description = 'Show which step last changed each field of a facet, and the @query active at that point'
+  static examples = [
+    `<%= config.bin %> <%= command.id %> --file data.tql --facet meaning
+@meaning[2] column=amount_usd
+  column      #document[+0]                  amount_usd
+  definition  #document[+3]   $diff[+2→+3]   Transfer amount in USD  "How much was transferred yesterday?"`,
+    `<%= config.bin %> <%= command.id %> --file data.tql --facet structure --index 4 --json`,
+  ]
+  static flags = {
+    document: Flags.integer({
+      description: 'Document to blame (default: latest document of the current branch)',
+      required: false,
+    }),
+    facet: facetFlag({
+      description: 'Facet to blame',
+      required: true,
+    }),
+    file: Flags.string({
+      description: 'Path to the TQL file',
+      required: true,
+    }),
+    index: Flags.integer({
+      description: 'Only blame the row with this index',
+      required: false,
+    }),
+    json: Flags.boolean({
+      default: false,
+      description: 'Output rows as JSON',
+    }),
+  }
+
+  async run(): Promise<void> {
+    const {flags} = await this.parse(Blame)
+    let rows: BlameRow[]
+
+    try {
+      rows = blameFacet(parseTql(flags.file), flags.facet, {document: flags.document, index: flags.index})
+    } catch (error) {
+      if (error instanceof Error) {
+        this.error(`Failed to blame: ${error.message}`)
+      }
+
+      throw error
+    }
+
+    this.log(flags.json ? JSON.stringify(rows, null, 2) : formatBlame(flags.facet, rows))
+  }
+}
@@ -0,0 +1,72 @@
+import {Args, Command, Flags} from '@oclif/core'
+
+import {createBranch, formatDocumentTree, getDocumentTree, listBranches} from '../lib/operations/branch.js'
+import {writeTql} from '../lib/parser/generator.js'
+import {parseTql} from '../lib/parser/index.js'
+import {DEFAULT_BRANCH} from '../lib/parser/types.js'
+
+export default class Branch extends Command {
+  static args = {
+    name: Args.string({description: 'Name of the branch to create (omit to list branches)', required: false}),
+  }
+  static description = 'List, create or draw the branches of a TQL conversation'
+  static examples = [
+    `<%= config.bin %> <%= command.id %> --file data.tql
+* main  #document[+3]
+  utc   #document[+4]`,
+    `<%= config.bin %> <%= command.id %> --file data.tql utc --from 2
+✓ Created branch utc at #document[+2]`,
+    `<%= config.bin %> <%= command.id %> --file data.tql --tree
+#document[+0]
+#document[+1]
+#document[+2]
+├─ #document[+3]  (* main)
+└─ #document[+4]  (utc)`,
+  ]
+  static flags = {
+    file: Flags.string({
+      description: 'Path to the TQL file',
+      required: true,
+    }),
+    from: Flags.integer({
+      description: 'Document the new branch starts at (default: latest document of the current branch)',
+      required: false,
+    }),
+    tree: Flags.boolean({
+      default: false,
+      description: 'Draw the tree of documents and which document each was derived from',
+    }),
+  }
+
+  async run(): Promise<void> {
+    const {args, flags} = await this.parse(Branch)
+
+    try {
+      const conversation = parseTql(flags.file)
+
+      if (args.name) {
+        const updatedConversation = createBranch(conversation, args.name, flags.from)
+        writeTql(flags.file, updatedConversation)
+        this.log(`✓ Created branch ${args.name} at #document[+${updatedConversation.branches![args.name]}]`)
+        return
+      }
+
+      if (flags.tree) {
+        this.log(formatDocumentTree(getDocumentTree(conversation), conversation.currentBranch ?? DEFAULT_BRANCH))
+        return
+      }
+
+      const branches = listBranches(conversation)
+      const width = Math.max(...branches.map((branch) => branch.name.length))
+      for (const branch of branches) {
+        this.log(`${branch.current ? '*' : ' '} ${branch.name.padEnd(width)}  #document[+${branch.head}]`)
+      }
+    } catch (error) {
+      if (error instanceof Error) {
+        this.error(`Failed to branch: ${error.message}`)
+      }
+
+      throw error
+    }
+  }
+}
@@ -0,0 +1,77 @@
+import {Command, Flags} from '@oclif/core'
+
+import type {CheckResult} from '../lib/operations/check.js'
+
+import {checkConversation, formatStructureViolation} from '../lib/operations/check.js'
+import {writeTql} from '../lib/parser/generator.js'
+import {parseTql} from '../lib/parser/index.js'
+import {getDocumentCount} from '../lib/parser/types.js'
+
+export default class Check extends Command {
+  static description = 'Check the @table data of the head document against its @structure rules (exits 1 on violations)'
+  static examples = [
+    `<%= config.bin %> <%= command.id %> --file data.tql
+@table[3] amount_usd: maxValue expected <= 5000, got "7200"
+@table[5] status: format expected one of completed, pending, got "failed"
+✗ 2 violations in data.tql`,
+    `<%= config.bin %> <%= command.id %> --file data.tql --record
+@table[3] amount_usd: maxValue expected <= 5000, got "7200"
+@table[5] status: format expected one of completed, pending, got "failed"
+✗ 2 violations in data.tql
+  Recorded as @ambiguity rows in #document[+4]`,
+  ]
+  static flags = {
+    file: Flags.string({
+      description: 'Path to the TQL file',
+      required: true,
+    }),
+    json: Flags.boolean({
+      default: false,
+      description: 'Output violations as JSON',
+    }),
+    record: Flags.boolean({
+      default: false,
+      description: 'Append a document recording the violations as structure_violation @ambiguity rows',
+    }),
+  }
+
+  async run(): Promise<void> {
+    const {flags} = await this.parse(Check)
+    let result: CheckResult
+    let recorded: number | undefined
+
+    try {
+      const conversation = parseTql(flags.file)
+      result = checkConversation(conversation, {record: flags.record})
+
+      if (result.conversation !== conversation) {
+        writeTql(flags.file, result.conversation)
+        recorded = getDocumentCount(result.conversation) - 1
+      }
+    } catch (error) {
+      if (error instanceof Error) {
+        this.error(`Failed to check: ${error.message}`, {exit: 2})
+      }
+
+      throw error
+    }
+
+    const {violations} = result
+    if (flags.json) {
+      this.log(JSON.stringify({recorded, violations}, null, 2))
+    } else if (violations.length === 0) {
+      this.log(`✓ No violations in ${flags.file}`)
+    } else {
+      for (const violation of violations) this.log(formatStructureViolation(violation))
+      this.log(`✗ ${violations.length} violation${violations.length === 1 ? '' : 's'} in ${flags.file}`)
+    }
+
+    if (!flags.json && recorded !== undefined) {
+      this.log(`  Recorded as @ambiguity rows in #document[+${recorded}]`)
+    }
+
+    if (violations.length > 0) {
+      this.exit(1)
+    }
+  }
+}
@@ -0,0 +1,58 @@
+import {Args, Command, Flags} from '@oclif/core'
+
+import {checkoutBranch, createBranch} from '../lib/operations/branch.js'
+import {writeTql} from '../lib/parser/generator.js'
+import {parseTql} from '../lib/parser/index.js'
+import {getHeadIndex} from '../lib/parser/types.js'
+
+export default class Checkout extends Command {
+  static args = {
+    name: Args.string({description: 'Branch to switch to', required: true}),
+  }
+  static description = 'Switch the branch that new documents of a TQL conversation extend'
+  static examples = [
+    `<%= config.bin %> <%= command.id %> --file data.tql utc
+✓ Switched to branch utc (#document[+4])`,
+    `<%= config.bin %> <%= command.id %> --file data.tql mst --create --from 2
+✓ Switched to new branch mst (#document[+2])`,
+  ]
+  static flags = {
+    create: Flags.boolean({
+      char: 'b',
+      default: false,
+      description: 'Create the branch first',
+    }),
+    file: Flags.string({
+      description: 'Path to the TQL file',
+      required: true,
+    }),
+    from: Flags.integer({
+      dependsOn: ['create'],
+      description: 'Document the new branch starts at (default: latest document of the current branch)',
+      required: false,
+    }),
+  }
+
+  async run(): Promise<void> {
+    const {args, flags} = await this.parse(Checkout)
+
+    try {
+      let conversation = parseTql(flags.file)
+      if (flags.create) {
+        conversation = createBranch(conversation, args.name, flags.from)
+      }
+
+      const updatedConversation = checkoutBranch(conversation, args.name)
+      writeTql(flags.file, updatedConversation)
+
+      const kind = flags.create ? 'new branch' : 'branch'
+      this.log(`✓ Switched to ${kind} ${args.name} (#document[+${getHeadIndex(updatedConversation)}])`)
+    } catch (error) {
+      if (error instanceof Error) {
+        this.error(`Failed to check out: ${error.message}`)
+      }
+
+      throw error
+    }
+  }
+}
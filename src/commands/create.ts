@@ -2,13 +2,13 @@ import {Command, Flags} from '@oclif/core'
 import * as fs from 'node:fs'
 import {basename, dirname, extname, join} from 'node:path'
 
-import {generateTql, generateTqlDocument} from '../lib/generators/index.js'
+import type {TqlConversation, TqlEncoding} from '../lib/parser/types.js'
+
+import {generateTqlDocument} from '../lib/generators/index.js'
+import {insertRowInMemory} from '../lib/operations/crud.js'
 import {generateTqlFromConversation} from '../lib/parser/generator.js'
-import {writeTqlJson} from '../lib/parser/index.js'
-import type {TqlConversation, TqlDocument} from '../lib/parser/types.js'
 import {getDocumentCount} from '../lib/parser/types.js'
-import {readCsv} from '../lib/readers/csv.js'
-import {insertRowInMemory} from '../lib/operations/crud.js'
+import {type CsvOptions, readCsv, readCsvStream} from '../lib/readers/csv.js'
 
 export default class Create extends Command {
   static description = 'Create a TQL conversation from a data source'
@@ -23,6 +23,15 @@ static examples = [
 [reads from stdin, creates conversation]`,
   ]
 static flags = {
+    delimiter: Flags.string({
+      description: 'CSV field delimiter (default: ",")',
+      required: false,
+    }),
+    encoding: Flags.string({
+      description: 'Storage encoding recorded in the #conversation header (compact stores later documents as diffs only)',
+      options: ['full', 'compact'],
+      required: false,
+    }),
     facets: Flags.string({
       description: 'Comma-separated list of facets to generate (table,meaning,structure,ambiguity,intent,context,query,tasks,score)',
       required: false,
@@ -36,6 +45,12 @@ static flags = {
       description: 'Input file path (use "-" to read from stdin)',
       required: true,
     }),
+    'infer-structure': Flags.boolean({
+      allowNo: true,
+      default: true,
+      description: 'Infer @structure rules (types, nulls, min/max, formats) from the data',
+      required: false,
+    }),
     json: Flags.boolean({
       description: 'Print conversation JSON to terminal',
       required: false,
@@ -59,10 +74,12 @@ static flags = {
     const {flags} = await this.parse(Create)
 
     if (flags.source === 'csv') {
+      const csvOptions: CsvOptions = {delimiter: flags.delimiter}
+
       // Check if reading from stdin
       await (flags.in === '-'
-        ? this.createFromCsvStdin(flags.out, flags.facets, flags.format as 'json' | 'tql' | undefined, flags.query, flags.json)
-        : this.createFromCsv(flags.in, flags.out, flags.facets, flags.format as 'json' | 'tql' | undefined, flags.query, flags.json)
+        ? this.createFromCsvStdin(flags.out, flags.facets, flags.format as 'json' | 'tql' | undefined, flags.query, flags.json, flags['infer-structure'], csvOptions, flags.encoding as TqlEncoding | undefined)
+        : this.createFromCsv(flags.in, flags.out, flags.facets, flags.format as 'json' | 'tql' | undefined, flags.query, flags.json, flags['infer-structure'], csvOptions, flags.encoding as TqlEncoding | undefined)
       );
     }
   }
@@ -74,10 +91,13 @@ static flags = {
     format?: 'json' | 'tql',
     query?: string,
     printJson?: boolean,
+    inferStructure?: boolean,
+    csvOptions?: CsvOptions,
+    encoding?: TqlEncoding,
   ): Promise<void> {
     try {
       // Read the CSV file
-      const csvData = readCsv(inputPath)
+      const csvData = readCsv(inputPath, csvOptions)
 
       // Generate TqlDocument from CSV
       const doc = generateTqlDocument({
@@ -91,6 +111,7 @@ static flags = {
         facet: {
           name: '@table',
         },
+        inferStructure,
       })
 
       // Add query to @query facet if provided
@@ -103,6 +124,7 @@ static flags = {
 
       // Wrap in TqlConversation (always)
       const conversation: TqlConversation = {
+        encoding,
         sequence: [{'#document[+0]': doc}],
       }
 
@@ -161,22 +183,13 @@ static flags = {
     format?: 'json' | 'tql',
     query?: string,
     printJson?: boolean,
+    inferStructure?: boolean,
+    csvOptions?: CsvOptions,
+    encoding?: TqlEncoding,
   ): Promise<void> {
     try {
-      // Read from stdin
-      let csvContent = ''
-      for await (const chunk of process.stdin) {
-        csvContent += chunk
-      }
-
-      if (!csvContent.trim()) {
-        this.error('No CSV content received from stdin')
-      }
-
-      // Parse CSV content manually (simple parser for stdin)
-      const lines = csvContent.trim().split('\n')
-      const headers = lines[0].split(',').map((h) => h.trim())
-      const rows = lines.slice(1).map((line) => line.split(',').map((cell) => cell.trim()))
+      // Read and parse CSV from stdin (same parser as file input)
+      const {headers, rows} = await readCsvStream(process.stdin, csvOptions)
 
       // Generate TqlDocument from CSV
       const doc = generateTqlDocument({
@@ -190,6 +203,7 @@ static flags = {
         facet: {
           name: '@table',
         },
+        inferStructure,
       })
 
       // Add query to @query facet if provided
@@ -202,6 +216,7 @@ static flags = {
 
       // Wrap in TqlConversation (always)
       const conversation: TqlConversation = {
+        encoding,
         sequence: [{'#document[+0]': doc}],
       }
 
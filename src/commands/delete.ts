@@ -1,9 +1,12 @@
 import {Command, Flags} from '@oclif/core'
 
-import {applyChangesToConversation, deleteRowInMemory, deleteRowsInMemory} from '../lib/operations/crud.js'
+import type {DiffActor} from '../lib/parser/types.js'
+
+import {attributionFlags, facetFlag} from '../flags.js'
+import {applyChangesToConversation, createDiffMetadata, deleteRowInMemory, deleteRowsInMemory} from '../lib/operations/crud.js'
 import {parseTql} from '../lib/parser/index.js'
 import {writeTql} from '../lib/parser/generator.js'
-import {getDocumentCount} from '../lib/parser/types.js'
+import {getDocumentCount, getHeadIndex} from '../lib/parser/types.js'
 
 export default class Delete extends Command {
   static description = 'Delete row(s) from a TQL file facet'
@@ -14,10 +17,11 @@ static examples = [
 ✓ Deleted 3 rows from @context in data.tql`,
   ]
 static flags = {
-    facet: Flags.string({
+    ...attributionFlags,
+    facet: facetFlag({
       char: 'f',
       description: 'Facet to delete from',
-      options: ['data', 'meaning', 'structure', 'ambiguity', 'intent', 'context', 'query', 'tasks', 'score'],
+      exclude: ['table'],
       required: true,
     }),
     file: Flags.string({
@@ -44,20 +48,32 @@ static flags = {
       // Read conversation
       const conversation = parseTql(flags.file)
       const docCountBefore = getDocumentCount(conversation)
+      const headBefore = getHeadIndex(conversation)
+      const metadata = createDiffMetadata({
+        actor: flags.actor as DiffActor | undefined,
+        author: flags.author,
+        queryIndex: flags['query-index'],
+        reason: flags.reason,
+      })
 
       if (flags.index !== undefined) {
         // Delete single row
-        const updatedConversation = applyChangesToConversation(conversation, (doc) => {
-          // eslint-disable-next-line @typescript-eslint/no-explicit-any
-          deleteRowInMemory(doc, flags.facet as any, flags.index!)
-        })
+        const updatedConversation = applyChangesToConversation(
+          conversation,
+          (doc) => {
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            deleteRowInMemory(doc, flags.facet as any, flags.index!)
+          },
+          undefined,
+          {metadata},
+        )
 
         writeTql(flags.file, updatedConversation)
 
         const docCountAfter = getDocumentCount(updatedConversation)
         this.log(`✓ Deleted @${flags.facet}[${flags.index}]`)
         this.log(`  Documents: ${docCountBefore} → ${docCountAfter}`)
-        this.log(`  Diff: $diff[+${docCountBefore - 1}→+${docCountAfter - 1}]`)
+        this.log(`  Diff: $diff[+${headBefore}→+${docCountAfter - 1}]`)
       } else if (flags.indices) {
         // Delete multiple rows
         const indices = flags.indices.split(',').map((idx) => Number.parseInt(idx.trim(), 10))
@@ -66,17 +82,22 @@ static flags = {
           this.error('Invalid indices format. Use comma-separated numbers (e.g., "1,2,3")')
         }
 
-        const updatedConversation = applyChangesToConversation(conversation, (doc) => {
-          // eslint-disable-next-line @typescript-eslint/no-explicit-any
-          deleteRowsInMemory(doc, flags.facet as any, indices)
-        })
+        const updatedConversation = applyChangesToConversation(
+          conversation,
+          (doc) => {
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            deleteRowsInMemory(doc, flags.facet as any, indices)
+          },
+          undefined,
+          {metadata},
+        )
 
         writeTql(flags.file, updatedConversation)
 
         const docCountAfter = getDocumentCount(updatedConversation)
         this.log(`✓ Deleted ${indices.length} rows from @${flags.facet}`)
         this.log(`  Documents: ${docCountBefore} → ${docCountAfter}`)
-        this.log(`  Diff: $diff[+${docCountBefore - 1}→+${docCountAfter - 1}]`)
+        this.log(`  Diff: $diff[+${headBefore}→+${docCountAfter - 1}]`)
       } else {
         this.error('Must provide either --index or --indices')
       }
@@ -0,0 +1,128 @@
+import {Args, Command, Errors, Flags} from '@oclif/core'
+
+import type {TqlDiff, TqlDocument} from '../lib/parser/types.js'
+
+import {getDocumentTree} from '../lib/operations/branch.js'
+import {diffTqlDocuments, formatDiffAsJson, formatDiffAsMarkdown, formatDiffAsStat} from '../lib/operations/diff.js'
+import {parseTql} from '../lib/parser/index.js'
+import {getDocuments, getHeadIndex} from '../lib/parser/types.js'
+
+export default class Diff extends Command {
+  static args = {
+    fileA: Args.string({description: 'TQL file to compare from (compares its latest document)', required: false}),
+    fileB: Args.string({description: 'TQL file to compare to (compares its latest document)', required: false}),
+  }
+  static description = 'Compare two documents of a TQL conversation, or two TQL files (exits 1 when they differ)'
+  static examples = [
+    `<%= config.bin %> <%= command.id %> --file data.tql --from 0 --to 3
+[markdown diff of #document[+0] → #document[+3]]`,
+    `<%= config.bin %> <%= command.id %> a.tql b.tql --format stat
+ @meaning | 9 → 9 rows | ~3 modified`,
+    `<%= config.bin %> <%= command.id %> --file data.tql --format json
+[JSON diff of the last step]`,
+    `<%= config.bin %> <%= command.id %> last-week.tql this-week.tql --key transfer_id --format stat
+ @table | columns | +fee, amount → amount_usd`,
+  ]
+  static flags = {
+    color: Flags.boolean({
+      allowNo: true,
+      description: 'Colorize output (default: when writing to a terminal)',
+      required: false,
+    }),
+    file: Flags.string({
+      description: 'Path to the TQL file whose documents are compared',
+      required: false,
+    }),
+    format: Flags.string({
+      default: 'markdown',
+      description: 'Output format',
+      options: ['markdown', 'json', 'stat'],
+    }),
+    from: Flags.integer({
+      description: 'Document index to compare from (default: the one --to was derived from, or the latest document of the first file)',
+      required: false,
+    }),
+    key: Flags.string({
+      description: 'Primary-key column used to match @table rows when the data changed (default: match by index)',
+      required: false,
+    }),
+    to: Flags.integer({
+      description: 'Document index to compare to (default: the latest document of the current branch)',
+      required: false,
+    }),
+  }
+
+  async run(): Promise<void> {
+    const {args, flags} = await this.parse(Diff)
+    let diff: TqlDiff
+
+    try {
+      let before: TqlDocument
+      let after: TqlDocument
+      let metadata: TqlDiff['metadata']
+
+      if (flags.file) {
+        const conversation = parseTql(flags.file)
+        const documents = getDocuments(conversation)
+        const toIndex = flags.to ?? getHeadIndex(conversation)
+        const fromIndex = flags.from ?? getDocumentTree(conversation)[toIndex]?.parent ?? Math.max(0, toIndex - 1)
+        after = this.pickDocument(documents, toIndex, flags.file)
+        before = this.pickDocument(documents, fromIndex, flags.file)
+
+        // Show who made the change when the documents are one stored step
+        const stored = conversation.sequence.find((item) => `$diff[+${fromIndex}→+${toIndex}]` in item)
+        metadata = stored && (Object.values(stored)[0] as TqlDiff).metadata
+      } else if (args.fileA && args.fileB) {
+        const beforeDocs = getDocuments(parseTql(args.fileA))
+        const afterDocs = getDocuments(parseTql(args.fileB))
+        before = this.pickDocument(beforeDocs, flags.from ?? beforeDocs.length - 1, args.fileA)
+        after = this.pickDocument(afterDocs, flags.to ?? afterDocs.length - 1, args.fileB)
+      } else {
+        this.error('Provide either --file or two TQL files to compare', {exit: 2})
+      }
+
+      diff = diffTqlDocuments(before, after, {tableKey: flags.key})
+      if (metadata) {
+        diff.metadata = metadata
+      }
+    } catch (error) {
+      // Usage errors from this.error already carry their message and exit code
+      if (error instanceof Error && !(error instanceof Errors.CLIError)) {
+        this.error(`Failed to diff: ${error.message}`, {exit: 2})
+      }
+
+      throw error
+    }
+
+    const useColors = flags.color ?? Boolean(process.stdout.isTTY)
+
+    switch (flags.format) {
+      case 'json': {
+        this.log(formatDiffAsJson(diff))
+        break
+      }
+
+      case 'stat': {
+        this.log(formatDiffAsStat(diff, useColors))
+        break
+      }
+
+      default: {
+        this.log(formatDiffAsMarkdown(diff, useColors))
+      }
+    }
+
+    // Exit 1 when differences exist (like `diff` and `git diff --exit-code`)
+    if (diff.summary.totalFacetsChanged > 0) {
+      this.exit(1)
+    }
+  }
+
+  private pickDocument(documents: TqlDocument[], index: number, file: string): TqlDocument {
+    if (index < 0 || index >= documents.length) {
+      this.error(`Document index ${index} out of range for ${file} (0-${documents.length - 1})`, {exit: 2})
+    }
+
+    return documents[index]
+  }
+}
@@ -85,7 +85,7 @@ Runs example and cleans up generated files`,
       this.log('Next steps to try:')
       this.log('  1. View the file: cat examples/stablecoin-output.tql')
       this.log('  2. Add meanings: tql insert --file examples/stablecoin-output.tql --facet meaning ...')
-      this.log('  3. Compare changes: tql diff (coming soon)')
+      this.log('  3. Compare changes: tql diff --file examples/stablecoin-output.tql')
       this.log('  4. Export as JSON: tql create --format json\n')
 
       // Clean up only if --clean flag is set
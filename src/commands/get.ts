@@ -1,29 +1,36 @@
 import {Command, Flags} from '@oclif/core'
 
+import {facetFlag} from '../flags.js'
+import {facetColumns, formatRows, queryFacet, type QueryFormat, queryRows} from '../lib/operations/query.js'
+import {formatCell} from '../lib/parser/cells.js'
 import {parseTql} from '../lib/parser/index.js'
-import {getDocuments} from '../lib/parser/types.js'
+import {getDocuments, getHeadIndex} from '../lib/parser/types.js'
 
 export default class Get extends Command {
   static description = 'Get a row or facet from a TQL file'
 static examples = [
     `<%= config.bin %> <%= command.id %> --file data.tql --facet context --index 1
-{"index":"1","key":"user_timezone","value":"MST"}`,
+{"index":1,"key":"user_timezone","value":"MST"}`,
     `<%= config.bin %> <%= command.id %> --file data.tql --facet meaning
-[{"index":"1","column":"transfer_id","definition":""},...]`,
+[{"index":1,"column":"transfer_id","definition":""},...]`,
     `<%= config.bin %> <%= command.id %> --file data.tql --facet context --index 1 --field value
 MST`,
+    `<%= config.bin %> <%= command.id %> --file data.tql --facet table --where "stablecoin_type=USDT and amount_usd>1000000" --select transfer_id,amount_usd --sort -amount_usd --limit 2 --format table
+transfer_id  amount_usd
+-----------  ----------
+T-1042       2500000
+T-0977       1200000`,
   ]
 static flags = {
     document: Flags.integer({
       char: 'd',
       default: -1,
-      description: 'Document index (default: latest)',
+      description: 'Document index (default: latest document of the current branch)',
       required: false,
     }),
-    facet: Flags.string({
+    facet: facetFlag({
       char: 'f',
       description: 'Facet to read from',
-      options: ['table', 'meaning', 'structure', 'ambiguity', 'intent', 'context', 'query', 'tasks', 'score'],
       required: true,
     }),
     field: Flags.string({
@@ -34,9 +41,38 @@ static flags = {
       description: 'Path to the TQL file',
       required: true,
     }),
+    format: Flags.string({
+      default: 'json',
+      description: 'Output format',
+      options: ['json', 'csv', 'table'],
+      required: false,
+    }),
     index: Flags.integer({
       char: 'i',
       description: 'Index of row to get (optional, if omitted returns all rows)',
+      exclusive: ['where', 'sort', 'limit'],
+      required: false,
+    }),
+    limit: Flags.integer({
+      description: 'Return at most this many rows',
+      required: false,
+    }),
+    select: Flags.string({
+      description: 'Comma-separated columns to return, in order',
+      exclusive: ['field'],
+      required: false,
+    }),
+    sort: Flags.string({
+      description: 'Comma-separated columns to sort by (prefix with - for descending, e.g. -amount_usd)',
+      required: false,
+    }),
+    typed: Flags.boolean({
+      default: false,
+      description: 'Output @table cells as numbers, booleans and nulls by their @structure dataType',
+    }),
+    where: Flags.string({
+      char: 'w',
+      description: 'Filter rows, e.g. "stablecoin_type=USDT and amount_usd>1000000" (operators: = != > >= < <= ~)',
       required: false,
     }),
   }
@@ -45,13 +81,13 @@ static flags = {
     const {flags} = await this.parse(Get)
 
     try {
-      const conversation = parseTql(flags.file)
+      const conversation = parseTql(flags.file, {typed: flags.typed})
       const documents = getDocuments(conversation)
 
       // Determine which document to read from
       let docIndex = flags.document
       if (docIndex === -1) {
-        docIndex = documents.length - 1 // Latest document
+        docIndex = getHeadIndex(conversation) // Latest document of the current branch
       }
 
       if (docIndex < 0 || docIndex >= documents.length) {
@@ -68,10 +104,13 @@ static flags = {
         this.error(`Facet @${flags.facet} not found`)
       }
 
+      const format = flags.format as QueryFormat
+      const select = splitList(flags.select)
+
       if (flags.index !== undefined) {
         // Get specific row
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const row = facet.rows.find((r: any) => Number(r.index) === flags.index)
+        const rows = facet.rows as Array<Record<string, unknown>>
+        const row = rows.find((r) => Number(r.index) === flags.index)
 
         if (!row) {
           this.error(`Row with index ${flags.index} not found in @${flags.facet}`)
@@ -79,20 +118,28 @@ static flags = {
 
         if (flags.field) {
           // Return specific field
-          // eslint-disable-next-line @typescript-eslint/no-explicit-any
-          const value = (row as any)[flags.field]
+          const value = row[flags.field]
           if (value === undefined) {
             this.error(`Field "${flags.field}" not found in row`)
           }
 
-          this.log(value)
-        } else {
+          this.log(formatCell(value))
+        } else if (format === 'json' && !select) {
           // Return entire row as JSON
           this.log(JSON.stringify(row, null, 2))
+        } else {
+          const [selected] = queryRows([row], {select})
+          this.log(format === 'json' ? JSON.stringify(selected, null, 2) : formatRows([selected], format))
         }
       } else {
-        // Get all rows from facet
-        this.log(JSON.stringify(facet.rows, null, 2))
+        // Get all (or the matching) rows from facet
+        const rows = queryFacet(doc, flags.facet, {
+          limit: flags.limit,
+          select,
+          sort: splitList(flags.sort),
+          where: flags.where,
+        })
+        this.log(formatRows(rows, format, select ?? facetColumns(doc, flags.facet)))
       }
     } catch (error) {
       if (error instanceof Error) {
@@ -103,3 +150,10 @@ static flags = {
     }
   }
 }
+
+function splitList(value: string | undefined): string[] | undefined {
+  return value
+    ?.split(',')
+    .map((item) => item.trim())
+    .filter(Boolean)
+}
@@ -1,9 +1,12 @@
 import {Command, Flags} from '@oclif/core'
 
-import {applyChangesToConversation, insertRowInMemory} from '../lib/operations/crud.js'
+import type {DiffActor} from '../lib/parser/types.js'
+
+import {attributionFlags, facetFlag} from '../flags.js'
+import {applyChangesToConversation, createDiffMetadata, insertRowInMemory} from '../lib/operations/crud.js'
 import {parseTql} from '../lib/parser/index.js'
 import {writeTql} from '../lib/parser/generator.js'
-import {getDocumentCount} from '../lib/parser/types.js'
+import {getDocumentCount, getHeadIndex} from '../lib/parser/types.js'
 
 export default class Insert extends Command {
   static description = 'Insert a row into a TQL file facet'
@@ -14,16 +17,17 @@ static examples = [
 ✓ Inserted 1 row into @context in data.tql`,
   ]
 static flags = {
+    ...attributionFlags,
     data: Flags.string({
       char: 'd',
       description: 'Row data as JSON string (without index)',
       exclusive: ['key', 'value'],
       required: false,
     }),
-    facet: Flags.string({
+    facet: facetFlag({
       char: 'f',
       description: 'Facet to insert into',
-      options: ['data', 'meaning', 'structure', 'ambiguity', 'intent', 'context', 'query', 'tasks', 'score'],
+      exclude: ['table'],
       required: true,
     }),
     file: Flags.string({
@@ -55,6 +59,10 @@ static flags = {
         } catch {
           this.error('Invalid JSON in --data flag')
         }
+
+        if (typeof rowData !== 'object' || rowData === null || Array.isArray(rowData)) {
+          this.error('--data must be a JSON object of field values')
+        }
       } else if (flags.key && flags.value && flags.facet === 'context') {
         // Shorthand for context rows
         rowData = {
@@ -75,18 +83,31 @@ static flags = {
       // Read conversation, apply changes, and write back with diff
       const conversation = parseTql(flags.file)
       const docCountBefore = getDocumentCount(conversation)
+      const headBefore = getHeadIndex(conversation)
 
-      const updatedConversation = applyChangesToConversation(conversation, (doc) => {
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        insertRowInMemory(doc, flags.facet as any, rowData as any)
+      const metadata = createDiffMetadata({
+        actor: flags.actor as DiffActor | undefined,
+        author: flags.author,
+        queryIndex: flags['query-index'],
+        reason: flags.reason,
       })
 
+      const updatedConversation = applyChangesToConversation(
+        conversation,
+        (doc) => {
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          insertRowInMemory(doc, flags.facet as any, rowData as any)
+        },
+        undefined,
+        {metadata},
+      )
+
       writeTql(flags.file, updatedConversation)
 
       const docCountAfter = getDocumentCount(updatedConversation)
       this.log(`✓ Inserted 1 row into @${flags.facet}`)
       this.log(`  Documents: ${docCountBefore} → ${docCountAfter}`)
-      this.log(`  Diff: $diff[+${docCountBefore - 1}→+${docCountAfter - 1}]`)
+      this.log(`  Diff: $diff[+${headBefore}→+${docCountAfter - 1}]`)
     } catch (error) {
       if (error instanceof Error) {
         this.error(`Failed to insert row: ${error.message}`)
@@ -0,0 +1,51 @@
+import {Command, Flags} from '@oclif/core'
+
+import type {LogEntry} from '../lib/operations/log.js'
+
+import {facetFlag} from '../flags.js'
+import {formatLog, getConversationLog} from '../lib/operations/log.js'
+import {parseTql} from '../lib/parser/index.js'
+
+export default class Log extends Command {
+  static description = "Show a TQL conversation's history: one entry per document, newest first"
+  static examples = [
+    `<%= config.bin %> <%= command.id %> --file data.tql
+#document[+1]  $diff[+0→+1]  2025-11-11T13:51:24.520Z
+  facets: @meaning, @score
+  rows:   +0 ~2 -0
+  query:  "How much was transferred yesterday?"`,
+    `<%= config.bin %> <%= command.id %> --file data.tql --facet ambiguity`,
+    `<%= config.bin %> <%= command.id %> --file data.tql --json`,
+  ]
+  static flags = {
+    facet: facetFlag({
+      description: 'Only show steps that changed this facet (row counts cover this facet only)',
+      required: false,
+    }),
+    file: Flags.string({
+      description: 'Path to the TQL file',
+      required: true,
+    }),
+    json: Flags.boolean({
+      default: false,
+      description: 'Output entries as JSON (oldest first)',
+    }),
+  }
+
+  async run(): Promise<void> {
+    const {flags} = await this.parse(Log)
+    let entries: LogEntry[]
+
+    try {
+      entries = getConversationLog(parseTql(flags.file), {facet: flags.facet})
+    } catch (error) {
+      if (error instanceof Error) {
+        this.error(`Failed to read history: ${error.message}`)
+      }
+
+      throw error
+    }
+
+    this.log(flags.json ? JSON.stringify(entries, null, 2) : formatLog(entries))
+  }
+}
@@ -0,0 +1,63 @@
+import {Args, Command, Flags} from '@oclif/core'
+
+import type {MergeResult} from '../lib/operations/merge.js'
+
+import {mergeConversations} from '../lib/operations/merge.js'
+import {writeTql} from '../lib/parser/generator.js'
+import {parseTql} from '../lib/parser/index.js'
+
+export default class MergeDriver extends Command {
+  static args = {
+    base: Args.string({description: 'Common ancestor version (%O)', required: true}),
+    ours: Args.string({description: 'Our version (%A); the merge result is written here', required: true}),
+    theirs: Args.string({description: 'Their version (%B)', required: true}),
+  }
+  static description =
+    'Three-way merge of TQL conversations, usable as a git merge driver (exits 1 when rows conflict)'
+  static examples = [
+    `git config merge.tql.name "TQL conversation merge"
+git config merge.tql.driver "<%= config.bin %> <%= command.id %> %O %A %B"
+echo "*.tql merge=tql" >> .gitattributes`,
+    `<%= config.bin %> <%= command.id %> base.tql ours.tql theirs.tql
+✓ Merged from #document[+2]
+  Conflicts: 1
+  @meaning column=amount_usd: definition`,
+  ]
+  static flags = {
+    key: Flags.string({
+      description: 'Primary-key column used to match @table rows (default: match by index)',
+      required: false,
+    }),
+  }
+
+  async run(): Promise<void> {
+    const {args, flags} = await this.parse(MergeDriver)
+    let result: MergeResult
+
+    try {
+      result = mergeConversations(parseTql(args.base), parseTql(args.ours), parseTql(args.theirs), {
+        recordConflicts: true,
+        tableKey: flags.key,
+      })
+      writeTql(args.ours, result.conversation)
+    } catch (error) {
+      if (error instanceof Error) {
+        this.error(`Failed to merge: ${error.message}`, {exit: 2})
+      }
+
+      throw error
+    }
+
+    this.log(`✓ Merged from #document[+${result.common}]`)
+    this.log(`  Conflicts: ${result.conflicts.length}`)
+    for (const conflict of result.conflicts) {
+      const fields = conflict.fields.length > 0 ? `: ${conflict.fields.join(', ')}` : ''
+      this.log(`  @${conflict.facet} ${conflict.key}${fields}`)
+    }
+
+    // Git treats a non-zero exit as an unresolved conflict
+    if (result.conflicts.length > 0) {
+      this.exit(1)
+    }
+  }
+}
@@ -0,0 +1,83 @@
+import {Command, Flags} from '@oclif/core'
+
+import {refreshConversation} from '../lib/operations/refresh.js'
+import {writeTql} from '../lib/parser/generator.js'
+import {parseTql} from '../lib/parser/index.js'
+import {getDocumentCount, getHeadIndex} from '../lib/parser/types.js'
+import {readCsv} from '../lib/readers/csv.js'
+
+export default class Refresh extends Command {
+  static description = 'Append a document with new @table data, carrying annotations forward from the latest document'
+  static examples = [
+    `<%= config.bin %> <%= command.id %> --file data.tql --in new.csv --key transfer_id
+✓ Refreshed @table from new.csv
+  Documents: 3 → 4
+  Diff: $diff[+2→+3]
+  Columns: +fee, -memo, amount → amount_usd
+  Violations: 2 (amount_usd maxValue, status format)`,
+  ]
+  static flags = {
+    delimiter: Flags.string({
+      description: 'CSV field delimiter (default: ",")',
+      required: false,
+    }),
+    file: Flags.string({
+      description: 'Path to the TQL file',
+      required: true,
+    }),
+    in: Flags.string({
+      description: 'Path to the new CSV data',
+      required: true,
+    }),
+    'infer-structure': Flags.boolean({
+      allowNo: true,
+      default: true,
+      description: 'Infer @structure rules for new columns from the data',
+      required: false,
+    }),
+    key: Flags.string({
+      description: 'Primary-key column used to match @table rows in the diff (default: match by index)',
+      required: false,
+    }),
+  }
+
+  async run(): Promise<void> {
+    const {flags} = await this.parse(Refresh)
+
+    try {
+      const conversation = parseTql(flags.file)
+      const docCountBefore = getDocumentCount(conversation)
+      const headBefore = getHeadIndex(conversation)
+
+      const {conversation: updatedConversation, report} = refreshConversation(
+        conversation,
+        readCsv(flags.in, {delimiter: flags.delimiter}),
+        {inferStructure: flags['infer-structure'], tableKey: flags.key},
+      )
+      writeTql(flags.file, updatedConversation)
+
+      const docCountAfter = getDocumentCount(updatedConversation)
+      const columnChanges = [
+        ...report.addedColumns.map((column) => `+${column}`),
+        ...report.droppedColumns.map((column) => `-${column}`),
+        ...report.renamedColumns.map(({from, to}) => `${from} → ${to}`),
+      ]
+      const brokenRules = [...new Set(report.violations.map((v) => `${v.column} ${v.rule}`))]
+
+      this.log(`✓ Refreshed @table from ${flags.in}`)
+      this.log(`  Documents: ${docCountBefore} → ${docCountAfter}`)
+      this.log(`  Diff: $diff[+${headBefore}→+${docCountAfter - 1}]`)
+      this.log(`  Columns: ${columnChanges.length > 0 ? columnChanges.join(', ') : 'unchanged'}`)
+      this.log(
+        `  Violations: ${report.violations.length}` +
+          (brokenRules.length > 0 ? ` (${brokenRules.join(', ')})` : ''),
+      )
+    } catch (error) {
+      if (error instanceof Error) {
+        this.error(`Failed to refresh: ${error.message}`)
+      }
+
+      throw error
+    }
+  }
+}
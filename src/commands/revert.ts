@@ -0,0 +1,50 @@
+import {Command, Flags} from '@oclif/core'
+
+import {revertToDocument} from '../lib/operations/crud.js'
+import {writeTql} from '../lib/parser/generator.js'
+import {parseTql} from '../lib/parser/index.js'
+import {getDocumentCount, getHeadIndex} from '../lib/parser/types.js'
+
+export default class Revert extends Command {
+  static description = 'Append a new document equal to an earlier one (history stays append-only)'
+  static examples = [
+    `<%= config.bin %> <%= command.id %> --file data.tql --to 1
+✓ Reverted to #document[+1]
+  Documents: 4 → 5
+  Diff: $diff[+3→+4]`,
+  ]
+  static flags = {
+    file: Flags.string({
+      description: 'Path to the TQL file',
+      required: true,
+    }),
+    to: Flags.integer({
+      description: 'Index of the document to restore',
+      required: true,
+    }),
+  }
+
+  async run(): Promise<void> {
+    const {flags} = await this.parse(Revert)
+
+    try {
+      const conversation = parseTql(flags.file)
+      const docCountBefore = getDocumentCount(conversation)
+      const headBefore = getHeadIndex(conversation)
+
+      const updatedConversation = revertToDocument(conversation, flags.to)
+      writeTql(flags.file, updatedConversation)
+
+      const docCountAfter = getDocumentCount(updatedConversation)
+      this.log(`✓ Reverted to #document[+${flags.to}]`)
+      this.log(`  Documents: ${docCountBefore} → ${docCountAfter}`)
+      this.log(`  Diff: $diff[+${headBefore}→+${docCountAfter - 1}]`)
+    } catch (error) {
+      if (error instanceof Error) {
+        this.error(`Failed to revert: ${error.message}`)
+      }
+
+      throw error
+    }
+  }
+}
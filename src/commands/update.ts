@@ -1,9 +1,12 @@
 import {Command, Flags} from '@oclif/core'
 
-import {applyChangesToConversation, updateRowInMemory} from '../lib/operations/crud.js'
+import type {DiffActor} from '../lib/parser/types.js'
+
+import {attributionFlags, facetFlag} from '../flags.js'
+import {applyChangesToConversation, createDiffMetadata, updateRowInMemory} from '../lib/operations/crud.js'
 import {parseTql} from '../lib/parser/index.js'
 import {writeTql} from '../lib/parser/generator.js'
-import {getDocumentCount} from '../lib/parser/types.js'
+import {getDocumentCount, getHeadIndex} from '../lib/parser/types.js'
 
 export default class Update extends Command {
   static description = 'Update a row in a TQL file facet'
@@ -14,15 +17,16 @@ static examples = [
 ✓ Updated row 2 in @meaning in data.tql`,
   ]
 static flags = {
+    ...attributionFlags,
     data: Flags.string({
       char: 'd',
       description: 'Row data as JSON string (fields to update, without index)',
       required: true,
     }),
-    facet: Flags.string({
+    facet: facetFlag({
       char: 'f',
       description: 'Facet to update',
-      options: ['data', 'meaning', 'structure', 'ambiguity', 'intent', 'context', 'query', 'tasks', 'score'],
+      exclude: ['table'],
       required: true,
     }),
     file: Flags.string({
@@ -48,21 +52,38 @@ static flags = {
         this.error('Invalid JSON in --data flag')
       }
 
+      if (typeof rowData !== 'object' || rowData === null || Array.isArray(rowData)) {
+        this.error('--data must be a JSON object of field values')
+      }
+
       // Read conversation, apply changes, and write back with diff
       const conversation = parseTql(flags.file)
       const docCountBefore = getDocumentCount(conversation)
+      const headBefore = getHeadIndex(conversation)
 
-      const updatedConversation = applyChangesToConversation(conversation, (doc) => {
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        updateRowInMemory(doc, flags.facet as any, flags.index, rowData as any)
+      const metadata = createDiffMetadata({
+        actor: flags.actor as DiffActor | undefined,
+        author: flags.author,
+        queryIndex: flags['query-index'],
+        reason: flags.reason,
       })
 
+      const updatedConversation = applyChangesToConversation(
+        conversation,
+        (doc) => {
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          updateRowInMemory(doc, flags.facet as any, flags.index, rowData as any)
+        },
+        undefined,
+        {metadata},
+      )
+
       writeTql(flags.file, updatedConversation)
 
       const docCountAfter = getDocumentCount(updatedConversation)
       this.log(`✓ Updated @${flags.facet}[${flags.index}]`)
       this.log(`  Documents: ${docCountBefore} → ${docCountAfter}`)
-      this.log(`  Diff: $diff[+${docCountBefore - 1}→+${docCountAfter - 1}]`)
+      this.log(`  Diff: $diff[+${headBefore}→+${docCountAfter - 1}]`)
     } catch (error) {
       if (error instanceof Error) {
         this.error(`Failed to update row: ${error.message}`)
@@ -0,0 +1,72 @@
+import {Command, Flags} from '@oclif/core'
+
+import type {ValidationResult} from '../lib/operations/validate.js'
+
+import {formatValidationIssue, validateConversation} from '../lib/operations/validate.js'
+import {parseTql} from '../lib/parser/index.js'
+
+export default class Validate extends Command {
+  static description =
+    'Check that the facets of a TQL file agree with each other (exits 1 on errors, or on warnings with --strict)'
+  static examples = [
+    `<%= config.bin %> <%= command.id %> --file data.tql
+#document[+3] @meaning[10]: error Column "fee_usd" is not in @table [unknown-column]
+#document[+3] @table: warning Column "purpose" has no @meaning row [missing-meaning]
+✗ 1 error, 1 warning in data.tql`,
+    `<%= config.bin %> <%= command.id %> --file data.tql --all --json`,
+  ]
+  static flags = {
+    all: Flags.boolean({
+      default: false,
+      description: 'Validate every document, not only the head',
+    }),
+    file: Flags.string({
+      description: 'Path to the TQL file',
+      required: true,
+    }),
+    json: Flags.boolean({
+      default: false,
+      description: 'Output issues as JSON',
+    }),
+    strict: Flags.boolean({
+      default: false,
+      description: 'Exit 1 on warnings too',
+    }),
+  }
+
+  async run(): Promise<void> {
+    const {flags} = await this.parse(Validate)
+    let result: ValidationResult
+
+    try {
+      result = validateConversation(parseTql(flags.file), {all: flags.all})
+    } catch (error) {
+      if (error instanceof Error) {
+        this.error(`Failed to validate: ${error.message}`, {exit: 2})
+      }
+
+      throw error
+    }
+
+    const errors = result.issues.filter((issue) => issue.severity === 'error').length
+    const warnings = result.issues.length - errors
+
+    if (flags.json) {
+      this.log(JSON.stringify(result, null, 2))
+    } else if (result.issues.length === 0) {
+      this.log(`✓ No problems found in ${flags.file}`)
+    } else {
+      for (const issue of result.issues) this.log(formatValidationIssue(issue))
+      this.log(`✗ ${count(errors, 'error')}, ${count(warnings, 'warning')} in ${flags.file}`)
+    }
+
+    // Exit 1 on problems so the command can gate commits
+    if (errors > 0 || (flags.strict && warnings > 0)) {
+      this.exit(1)
+    }
+  }
+}
+
+function count(n: number, noun: string): string {
+  return `${n} ${noun}${n === 1 ? '' : 's'}`
+}
@@ -0,0 +1,44 @@
+import {Flags} from '@oclif/core'
+
+import {getFacetNames} from './lib/parser/registry.js'
+
+/**
+ * --facet flag accepting the built-in facets and those registered from TQL_FACETS
+ * Names are checked when the flag is parsed rather than listed as options: commands can be
+ * loaded before the init hook has registered custom facets.
+ */
+export const facetFlag = Flags.custom<string, {exclude?: string[]}>({
+  helpValue: '<facet>',
+  async parse(input, _context, options) {
+    const names = getFacetNames().filter((name) => !options.exclude?.includes(name))
+    if (!names.includes(input)) {
+      throw new Error(`Expected --facet=${input} to be one of: ${names.join(', ')}`)
+    }
+
+    return input
+  },
+})
+
+/**
+ * Flags of the commands that add a document, recorded as the @metadata of its diff
+ */
+export const attributionFlags = {
+  actor: Flags.string({
+    description: 'Who made the change, recorded with the diff',
+    options: ['human', 'assistant', 'rule'],
+    required: false,
+  }),
+  author: Flags.string({
+    description: 'Name of the person or agent making the change, recorded with the diff',
+    required: false,
+  }),
+  'query-index': Flags.integer({
+    description: 'Index of the @query row that prompted the change, recorded with the diff',
+    min: 1,
+    required: false,
+  }),
+  reason: Flags.string({
+    description: 'Why the change was made, recorded with the diff',
+    required: false,
+  }),
+}
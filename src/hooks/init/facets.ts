@@ -0,0 +1,38 @@
+import {Hook} from '@oclif/core'
+import {resolve} from 'node:path'
+import {pathToFileURL} from 'node:url'
+
+import type {FacetDefinition} from '../../lib/parser/registry.js'
+
+import {registerFacet} from '../../lib/parser/registry.js'
+
+/**
+ * Register custom facets before any command runs
+ * TQL_FACETS lists modules (comma-separated paths) whose default export is a FacetDefinition
+ * or an array of them, e.g. TQL_FACETS=./facets.js tql insert --facet lineage ...
+ */
+const hook: Hook<'init'> = async function () {
+  const modules = (process.env.TQL_FACETS ?? '')
+    .split(',')
+    .map((module) => module.trim())
+    .filter(Boolean)
+
+  for (const module of modules) {
+    try {
+      // Loaded one by one so facets are registered (and written) in the order given
+      // eslint-disable-next-line no-await-in-loop
+      const {default: definitions} = (await import(pathToFileURL(resolve(module)).href)) as {
+        default?: FacetDefinition | FacetDefinition[]
+      }
+      if (!definitions) throw new Error('no default export')
+
+      for (const definition of [definitions].flat()) {
+        registerFacet(definition)
+      }
+    } catch (error) {
+      this.error(`Failed to load facets from ${module}: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+}
+
+export default hook
@@ -4,15 +4,49 @@
 export { generateTql, generateTqlDocument } from './lib/generators/index.js'
 
 export type { GenerateTqlDocumentInput, TqlGeneratorInput, TqlGeneratorOptions } from './lib/generators/index.js'
+export { matchesDataType, profileColumns } from './lib/generators/profile.js'
+export type { ColumnProfile } from './lib/generators/profile.js'
+
+// Batch Operations
+export { applyOperations, parseOperations, TqlOperationError, validateOperations } from './lib/operations/apply.js'
+export type { OperationIssue, TqlOperation } from './lib/operations/apply.js'
+
+// Blame
+export { blameFacet, formatBlame } from './lib/operations/blame.js'
+export type { BlameCell, BlameOptions, BlameRow } from './lib/operations/blame.js'
+
+// Branches
+export {
+  checkoutBranch,
+  createBranch,
+  formatDocumentTree,
+  getDocumentTree,
+  listBranches,
+} from './lib/operations/branch.js'
+export type { BranchInfo, DocumentNode } from './lib/operations/branch.js'
+
+// Structure Rules
+export {
+  checkConversation,
+  checkStructureRules,
+  formatStructureViolation,
+  STRUCTURE_VIOLATION_TYPE,
+  violationAmbiguities,
+} from './lib/operations/check.js'
+export type { CheckOptions, CheckResult, StructureRule, StructureViolation } from './lib/operations/check.js'
+
 // Operations (In-Memory First-Class)
 export {
   applyChangesToConversation,
+  createDiffMetadata,
   deleteRowInMemory,
   deleteRowsInMemory,
   insertRowInMemory,
   insertRowsInMemory,
+  revertToDocument,
   updateRowInMemory,
 } from './lib/operations/crud.js'
+export type { ApplyChangesOptions } from './lib/operations/crud.js'
 
 // Operations (File-Based Wrappers)
 export {
@@ -25,20 +59,105 @@ export {
 
 // Diff Operations
 export {
+  applyDiff,
+  countRowChanges,
   diffConversationStep,
   diffTqlDocuments,
   formatDiffAsJson,
   formatDiffAsMarkdown,
+  formatDiffAsStat,
+  invertDiff,
+  verifyConversation,
 } from './lib/operations/diff.js'
+export type { DiffMismatch, DiffOptions, VerifyResult } from './lib/operations/diff.js'
+
+// History
+export { formatLog, getConversationLog } from './lib/operations/log.js'
+export type { LogEntry, LogOptions } from './lib/operations/log.js'
+
+// Merge
+export { MERGE_CONFLICT_AMBIGUITY_TYPE, mergeConversations } from './lib/operations/merge.js'
+export type { MergeConflict, MergeOptions, MergeResult } from './lib/operations/merge.js'
+
+// JSON Patch
+export { jsonPatchToChanges, tqlDiffToJsonPatch } from './lib/operations/patch.js'
+export type { JsonPatchOperation } from './lib/operations/patch.js'
+
+// Query
+export { facetColumns, formatRows, parseWhere, queryFacet, queryRows } from './lib/operations/query.js'
+export type { QueryCondition, QueryFormat, QueryOperator, QueryOptions } from './lib/operations/query.js'
+
+// Refresh
+export { REFRESH_AMBIGUITY_TYPES, refreshConversation } from './lib/operations/refresh.js'
+export type { RefreshOptions, RefreshReport, RefreshResult } from './lib/operations/refresh.js'
 
+// Scoring
+export { applyScores, computeScores, isIntentConfirmed, SCORE_MEASURES } from './lib/operations/score.js'
+export type { ScoreResult } from './lib/operations/score.js'
+
+// Cross-Facet Validation
+export { formatValidationIssue, validateConversation, validateDocument } from './lib/operations/validate.js'
+export type {
+  ValidateOptions,
+  ValidationCode,
+  ValidationIssue,
+  ValidationResult,
+} from './lib/operations/validate.js'
+
+// Typed @table cells
+export { cellsEqual, coerceCell, formatCell, typeTableCells } from './lib/parser/cells.js'
+
+// Parse Diagnostics
+export { formatDiagnostic, TqlParseError } from './lib/parser/errors.js'
+
+export type {
+  TqlDiagnostic,
+  TqlDiagnosticCode,
+  TqlDiagnosticSeverity,
+  TqlParseOptions,
+  TqlParseResult,
+} from './lib/parser/errors.js'
+
+// Cell escaping for .tql markdown tables
+export { escapeCell, splitTableRow, unescapeCell } from './lib/parser/escape.js'
 // Generator (JSON → TQL)
 export { generateTqlFromConversation, generateTqlFromJson, writeTql } from './lib/parser/generator.js'
+export type { TqlWriteOptions } from './lib/parser/generator.js'
 
 // Parser (TQL → JSON)
-export { parseTql, parseTqlConversationFromString, parseTqlDocumentFromString, writeTqlJson } from './lib/parser/index.js'
+export {
+  parseTql,
+  parseTqlConversationFromString,
+  parseTqlConversationWithDiagnostics,
+  parseTqlDocumentFromString,
+  parseTqlWithDiagnostics,
+  writeTqlJson,
+} from './lib/parser/index.js'
+
+// Facet Registry
+export {
+  BUILTIN_FACETS,
+  createEmptyDocument,
+  getFacetDefinition,
+  getFacetNames,
+  isFacetName,
+  registerFacet,
+  unregisterFacet,
+  validateFacetRow,
+} from './lib/parser/registry.js'
+export type { FacetDefinition, ValidateRowOptions } from './lib/parser/registry.js'
 
 // Helper Functions
-export { getDocumentCount, getDocuments, getLastDocument } from './lib/parser/types.js'
+export {
+  DEFAULT_BRANCH,
+  FACET_COLUMNS,
+  FACET_KEYS,
+  getDocumentCount,
+  getDocuments,
+  getHeadIndex,
+  getLastDocument,
+  parseSequenceKey,
+} from './lib/parser/types.js'
 
 // Types
 export type {
@@ -47,6 +166,10 @@ export type {
   ChangeType,
   ContextFacet,
   ContextRow,
+  CustomFacet,
+  CustomFacetRow,
+  DiffActor,
+  DiffMetadata,
   FacetDiff,
   IntentFacet,
   IntentRow,
@@ -58,20 +181,25 @@ export type {
   ScoreFacet,
   ScoreRow,
   SequenceItem,
+  SequenceKey,
   StructureFacet,
   StructureRow,
+  TableCell,
   TableFacet,
   TableRow,
+  TableSchemaDiff,
   TasksFacet,
   TasksRow,
   TqlConversation,
   TqlDiff,
   TqlDocument,
+  TqlDocumentFacet,
+  TqlEncoding,
 } from './lib/parser/types.js'
 
 // CSV Reader
-export { readCsv, parseCsvString } from './lib/readers/csv.js'
-export type { CsvData } from './lib/readers/csv.js'
+export { CsvParseError, CsvParser, parseCsvString, readCsv, readCsvStream } from './lib/readers/csv.js'
+export type { CsvData, CsvOptions, CsvRecord } from './lib/readers/csv.js'
 
 // CLI (for oclif)
 export { run } from '@oclif/core'
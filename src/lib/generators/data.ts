@@ -1,11 +1,16 @@
+import {escapeCell} from '../parser/escape.js'
+
 export interface TableFacetInput {
   headers: string[]
   rows: string[][]
 }
 
 export function generateTableFacet(input: TableFacetInput): string {
-  const {headers, rows} = input
-  const numDataRows = rows.length
+  const numDataRows = input.rows.length
+
+  // Escape cells so pipes, newlines and surrounding whitespace survive parsing
+  const headers = input.headers.map((header) => escapeCell(header))
+  const rows = input.rows.map((row) => headers.map((_, colIndex) => escapeCell(row[colIndex])))
 
   // Add index column
   const allHeaders = ['index', ...headers]
@@ -13,7 +18,7 @@ export function generateTableFacet(input: TableFacetInput): string {
   // Calculate column widths
   const indexWidth = Math.max('index'.length, numDataRows.toString().length)
   const colWidths = [indexWidth, ...headers.map((header, colIndex) => {
-    const maxDataWidth = Math.max(...rows.map((row) => (row[colIndex] || '').length))
+    const maxDataWidth = Math.max(...rows.map((row) => row[colIndex].length))
     return Math.max(header.length, maxDataWidth)
   })]
 
@@ -34,7 +39,7 @@ export function generateTableFacet(input: TableFacetInput): string {
   // Add data rows
   for (const [i, row] of rows.entries()) {
     const indexCell = (i + 1).toString().padEnd(indexWidth)
-    const dataCells = row.map((cell, j) => (cell || '').padEnd(colWidths[j + 1])).join(' | ')
+    const dataCells = row.map((cell, j) => cell.padEnd(colWidths[j + 1])).join(' | ')
     const dataRow = '| ' + indexCell + ' | ' + dataCells + ' |'
     lines.push(dataRow)
   }
@@ -1,11 +1,13 @@
 import type {TqlDocument} from '../parser/types.js'
 
+import {applyScores} from '../operations/score.js'
 import {parseTqlDocumentFromString} from '../parser/index.js'
 import {generateAmbiguityFacet} from './ambiguity.js'
 import {generateContextFacet} from './context.js'
 import {generateTableFacet} from './data.js'
 import {generateIntentFacet} from './intent.js'
 import {generateMeaningFacet} from './meaning.js'
+import {profileColumns} from './profile.js'
 import {generateQueryFacet} from './query.js'
 import {generateScoreFacet} from './score.js'
 import {generateStructureFacet} from './structure.js'
@@ -18,6 +20,8 @@ export interface TqlGeneratorInput {
 
 export interface TqlGeneratorOptions {
   facets?: ('ambiguity' | 'context' | 'intent' | 'meaning' | 'query' | 'score' | 'structure' | 'table' | 'tasks')[]
+  // Profile the data rows to fill in @structure rules (default: false)
+  inferStructure?: boolean
 }
 
 export function generateTql(input: TqlGeneratorInput, options: TqlGeneratorOptions = {}): string {
@@ -35,7 +39,8 @@ export function generateTql(input: TqlGeneratorInput, options: TqlGeneratorOptio
   }
 
   if (facets.includes('structure')) {
-    sections.push(generateStructureFacet({headers}))
+    const profiles = options.inferStructure ? profileColumns(headers, rows) : undefined
+    sections.push(generateStructureFacet({headers, profiles}))
   }
 
   if (facets.includes('ambiguity')) {
@@ -70,6 +75,8 @@ export interface GenerateTqlDocumentInput {
   facet: {
     name: '@table'
   }
+  // Profile the data rows to fill in @structure rules (default: false)
+  inferStructure?: boolean
   source: {
     data: {
       headers: string[]
@@ -86,15 +93,21 @@ export interface GenerateTqlDocumentInput {
  * @example
  * const doc = generateTqlDocument({
  *   source: { format: 'csv', data: csvData },
- *   facet: { name: '@table' }
+ *   facet: { name: '@table' },
+ *   inferStructure: true
  * })
  */
 export function generateTqlDocument(input: GenerateTqlDocumentInput): TqlDocument {
   const {headers, rows} = input.source.data
 
   // Generate TQL string with all facets
-  const tqlString = generateTql({headers, rows})
+  const tqlString = generateTql({headers, rows}, {inferStructure: input.inferStructure})
 
   // Parse to TqlDocument object
-  return parseTqlDocumentFromString(tqlString)
+  const doc = parseTqlDocumentFromString(tqlString)
+
+  // Fill in @score measures for the initial state
+  applyScores(doc)
+
+  return doc
 }
@@ -1,9 +1,12 @@
+import {escapeCell} from '../parser/escape.js'
+
 export interface MeaningFacetInput {
   headers: string[]
 }
 
 export function generateMeaningFacet(input: MeaningFacetInput): string {
-  const {headers} = input
+  // Escape column names so pipes, newlines and surrounding whitespace survive parsing
+  const headers = input.headers.map((header) => escapeCell(header))
 
   // Define column widths for the meaning table
   const indexWidth = Math.max('index'.length, headers.length.toString().length)
@@ -0,0 +1,237 @@
+export interface ColumnProfile {
+  column: string
+  dataType: string
+  format: string
+  maxValue: string
+  minValue: string
+  nullAllowed: string
+}
+
+// Columns with at most this many distinct values (and repeated values) are treated as enums
+const ENUM_MAX_DISTINCT = 10
+
+const BOOLEAN_PATTERN = /^(true|false)$/i
+const INTEGER_PATTERN = /^[-+]?\d+$/
+const DECIMAL_PATTERN = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/
+const DATETIME_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+/**
+ * Check whether a non-empty cell value fits a @structure dataType
+ * Types without a value pattern (string, enum, or anything unrecognized) accept every value.
+ */
+export function matchesDataType(value: string, dataType: string): boolean {
+  switch (dataType.trim().toLowerCase()) {
+    case 'boolean': {
+      return BOOLEAN_PATTERN.test(value)
+    }
+
+    case 'date': {
+      return DATE_PATTERN.test(value) && !Number.isNaN(Date.parse(value))
+    }
+
+    case 'datetime': {
+      return DATETIME_PATTERN.test(value) && !Number.isNaN(Date.parse(value))
+    }
+
+    case 'decimal': {
+      return DECIMAL_PATTERN.test(value)
+    }
+
+    case 'integer': {
+      return INTEGER_PATTERN.test(value)
+    }
+
+    default: {
+      return true
+    }
+  }
+}
+
+/**
+ * Join enum values into a @structure format
+ * Commas and backslashes inside a value are escaped with a backslash, so every value can be split back out.
+ */
+export function formatEnumValues(values: string[]): string {
+  return values.map((value) => value.replaceAll(/[\\,]/g, String.raw`\$&`)).join(', ')
+}
+
+/**
+ * Split an enum @structure format back into its values (the inverse of formatEnumValues)
+ */
+export function parseEnumValues(format: string): string[] {
+  const values: string[] = []
+  let current = ''
+  for (let i = 0; i < format.length; i++) {
+    const char = format[i]
+    if (char === '\\' && i + 1 < format.length) {
+      current += format[++i]
+    } else if (char === ',') {
+      values.push(current.trim())
+      current = ''
+    } else {
+      current += char
+    }
+  }
+
+  values.push(current.trim())
+  return values
+}
+
+/**
+ * Profile CSV columns to infer @structure rules
+ * @param headers - Column names
+ * @param rows - Data rows (cells as strings, in header order)
+ * @returns One profile per column with nullAllowed, dataType, minValue, maxValue and format filled in
+ */
+export function profileColumns(headers: string[], rows: string[][]): ColumnProfile[] {
+  return headers.map((header, colIndex) => {
+    const cells = rows.map((row) => (row[colIndex] ?? '').trim())
+    return profileColumn(header, cells)
+  })
+}
+
+/**
+ * Profile a single column from its cell values
+ */
+function profileColumn(column: string, cells: string[]): ColumnProfile {
+  const values = cells.filter((cell) => cell !== '')
+  const profile: ColumnProfile = {
+    column,
+    dataType: '',
+    format: '',
+    maxValue: '',
+    minValue: '',
+    nullAllowed: values.length < cells.length ? 'true' : 'false',
+  }
+
+  // Nothing to infer from an all-empty column
+  if (values.length === 0) return profile
+
+  if (values.every((v) => BOOLEAN_PATTERN.test(v))) {
+    return {...profile, dataType: 'boolean'}
+  }
+
+  if (values.every((v) => INTEGER_PATTERN.test(v))) {
+    return {...profile, dataType: 'integer', ...numericRange(values)}
+  }
+
+  if (values.every((v) => DECIMAL_PATTERN.test(v))) {
+    return {...profile, dataType: 'decimal', ...numericRange(values)}
+  }
+
+  if (values.every((v) => DATETIME_PATTERN.test(v) && !Number.isNaN(Date.parse(v)))) {
+    return {...profile, dataType: 'datetime', format: inferDatetimeFormat(values), ...temporalRange(values)}
+  }
+
+  if (values.every((v) => DATE_PATTERN.test(v) && !Number.isNaN(Date.parse(v)))) {
+    return {...profile, dataType: 'date', format: 'YYYY-MM-DD', ...temporalRange(values)}
+  }
+
+  const distinct = [...new Set(values)]
+  if (distinct.length <= ENUM_MAX_DISTINCT && distinct.length < values.length) {
+    return {...profile, dataType: 'enum', format: formatEnumValues(distinct.sort())}
+  }
+
+  return {...profile, dataType: 'string', format: inferIdPattern(values)}
+}
+
+/**
+ * Min/max of numeric values, reported using the original cell text
+ */
+function numericRange(values: string[]): Pick<ColumnProfile, 'maxValue' | 'minValue'> {
+  let min = values[0]
+  let max = values[0]
+
+  for (const value of values) {
+    if (Number(value) < Number(min)) min = value
+    if (Number(value) > Number(max)) max = value
+  }
+
+  return {maxValue: max, minValue: min}
+}
+
+/**
+ * Min/max of date or datetime values, reported using the original cell text
+ */
+function temporalRange(values: string[]): Pick<ColumnProfile, 'maxValue' | 'minValue'> {
+  let min = values[0]
+  let max = values[0]
+
+  for (const value of values) {
+    if (Date.parse(value) < Date.parse(min)) min = value
+    if (Date.parse(value) > Date.parse(max)) max = value
+  }
+
+  return {maxValue: max, minValue: min}
+}
+
+/**
+ * Describe the shape of ISO-8601 timestamps (e.g. YYYY-MM-DDTHH:mm:ssZ)
+ * Falls back to ISO-8601 when values use mixed shapes
+ */
+function inferDatetimeFormat(values: string[]): string {
+  const formats = new Set(values.map((value) => datetimeFormat(value)))
+  return formats.size === 1 ? [...formats][0] : 'ISO-8601'
+}
+
+function datetimeFormat(value: string): string {
+  const match = value.match(/T\d{2}:\d{2}(:\d{2})?(\.(\d+))?(Z|[+-]\d{2}:?\d{2})?$/)!
+  let format = 'YYYY-MM-DDTHH:mm'
+
+  if (match[1]) format += ':ss'
+  if (match[3]) format += '.' + 'S'.repeat(match[3].length)
+
+  if (match[4] === 'Z') {
+    format += 'Z'
+  } else if (match[4]) {
+    format += match[4].includes(':') ? '±HH:mm' : '±HHmm'
+  }
+
+  return format
+}
+
+/**
+ * Recognize identifier patterns shared by every value (e.g. TXN-2024-###)
+ * Values are split into letter, digit and punctuation runs; runs that are
+ * constant across values stay literal, varying digit runs become '#' and
+ * varying letter runs become 'A'. Returns '' when no common pattern exists.
+ */
+function inferIdPattern(values: string[]): string {
+  const tokenized = values.map((value) => value.match(/[A-Za-z]+|\d+|[^A-Za-z\d]+/g) ?? [])
+  const [first] = tokenized
+
+  // Require a mix of runs including at least one digit run (plain words are not IDs)
+  if (first.length < 2 || !first.some((token) => /^\d/.test(token))) return ''
+
+  const sameShape = tokenized.every(
+    (tokens) =>
+      tokens.length === first.length &&
+      tokens.every((token, i) => token.length === first[i].length && tokenKind(token) === tokenKind(first[i])),
+  )
+  if (!sameShape) return ''
+
+  let varies = false
+  const pattern = first.map((token, i) => {
+    if (tokenized.every((tokens) => tokens[i] === token)) return token
+
+    varies = true
+    const kind = tokenKind(token)
+    if (kind === 'digit') return '#'.repeat(token.length)
+    if (kind === 'letter') return 'A'.repeat(token.length)
+    return token
+  })
+
+  // Punctuation runs must match exactly, otherwise the pattern would be misleading
+  const punctuationMatches = first.every(
+    (token, i) => tokenKind(token) !== 'other' || tokenized.every((tokens) => tokens[i] === token),
+  )
+
+  return varies && punctuationMatches ? pattern.join('') : ''
+}
+
+function tokenKind(token: string): 'digit' | 'letter' | 'other' {
+  if (/^\d/.test(token)) return 'digit'
+  if (/^[A-Za-z]/.test(token)) return 'letter'
+  return 'other'
+}
@@ -1,21 +1,18 @@
+import type {ColumnProfile} from './profile.js'
+
+import {escapeCell} from '../parser/escape.js'
+
 export interface StructureFacetInput {
   headers: string[]
-}
-
-interface ColumnStructure {
-  column: string
-  dataType: string
-  format: string
-  maxValue: string
-  minValue: string
-  nullAllowed: string
+  // Inferred column profiles (from profileColumns); when omitted all rules are left blank
+  profiles?: ColumnProfile[]
 }
 
 export function generateStructureFacet(input: StructureFacetInput): string {
-  const {headers} = input
+  const {headers, profiles} = input
 
-  // Create structure template for each column (all fields blank except column name)
-  const structures: ColumnStructure[] = headers.map((header) => ({
+  // Use inferred profiles when provided, otherwise a blank template for each column
+  const templates: ColumnProfile[] = profiles ?? headers.map((header) => ({
     column: header,
     dataType: '',
     format: '',
@@ -24,15 +21,25 @@ export function generateStructureFacet(input: StructureFacetInput): string {
     nullAllowed: '',
   }))
 
+  // Escape cells so pipes, newlines and surrounding whitespace survive parsing
+  const structures: ColumnProfile[] = templates.map((structure) => ({
+    column: escapeCell(structure.column),
+    dataType: escapeCell(structure.dataType),
+    format: escapeCell(structure.format),
+    maxValue: escapeCell(structure.maxValue),
+    minValue: escapeCell(structure.minValue),
+    nullAllowed: escapeCell(structure.nullAllowed),
+  }))
+
   // Calculate column widths
   const colWidths = {
     column: Math.max(...structures.map((s) => s.column.length), 'column'.length),
-    dataType: 'dataType'.length,
-    format: 'format'.length,
+    dataType: Math.max(...structures.map((s) => s.dataType.length), 'dataType'.length),
+    format: Math.max(...structures.map((s) => s.format.length), 'format'.length),
     index: Math.max('index'.length, headers.length.toString().length),
-    maxValue: 'maxValue'.length,
-    minValue: 'minValue'.length,
-    nullAllowed: 'nullAllowed'.length,
+    maxValue: Math.max(...structures.map((s) => s.maxValue.length), 'maxValue'.length),
+    minValue: Math.max(...structures.map((s) => s.minValue.length), 'minValue'.length),
+    nullAllowed: Math.max(...structures.map((s) => s.nullAllowed.length), 'nullAllowed'.length),
   }
 
   // Build the table
@@ -79,7 +86,7 @@ export function generateStructureFacet(input: StructureFacetInput): string {
     '|'
   lines.push(separator)
 
-  // Add data rows (all fields blank except column name)
+  // Add data rows (one per column)
   for (const [i, structure] of structures.entries()) {
     const dataRow =
       '| ' +
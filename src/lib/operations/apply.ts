@@ -0,0 +1,216 @@
+import type {TqlConversation, TqlDocument} from '../parser/types.js'
+import type {ApplyChangesOptions} from './crud.js'
+
+import {isFacetName} from '../parser/registry.js'
+import {getDocuments, getHeadIndex} from '../parser/types.js'
+import {applyChangesToConversation, deleteRowsInMemory, insertRowInMemory, updateRowInMemory} from './crud.js'
+
+/**
+ * One change of a batch, as written on one line of an ops.jsonl file
+ * Indices refer to the document as left by the operations before it.
+ */
+export type TqlOperation =
+  | {data: Record<string, string>; facet: string; index: number; op: 'update'}
+  | {data: Record<string, string>; facet: string; op: 'insert'}
+  | {facet: string; index?: number; indices?: number[]; op: 'delete'}
+
+/**
+ * A problem with one operation of a batch (operation is 1-based)
+ */
+export interface OperationIssue {
+  message: string
+  operation: number
+}
+
+/**
+ * Error thrown when a batch contains invalid operations (nothing has been applied)
+ */
+export class TqlOperationError extends Error {
+  issues: OperationIssue[]
+
+  constructor(issues: OperationIssue[]) {
+    super(
+      `${issues.length} invalid operation${issues.length === 1 ? '' : 's'}:\n` +
+        issues.map((issue) => `  Operation ${issue.operation}: ${issue.message}`).join('\n'),
+    )
+    this.name = 'TqlOperationError'
+    this.issues = issues
+  }
+}
+
+/**
+ * Parse operations from JSON Lines (one operation per line; blank lines are skipped)
+ * @throws TqlOperationError listing every line that is not valid JSON or not a valid operation
+ */
+export function parseOperations(content: string): TqlOperation[] {
+  const operations: TqlOperation[] = []
+  const issues: OperationIssue[] = []
+
+  for (const line of content.split(/\r?\n/)) {
+    if (line.trim() === '') continue
+
+    const operation = operations.length + issues.length + 1
+    let value: unknown
+    try {
+      value = JSON.parse(line)
+    } catch {
+      issues.push({message: 'Invalid JSON', operation})
+      continue
+    }
+
+    const problem = checkOperationShape(value)
+    if (problem) {
+      issues.push({message: problem, operation})
+    } else {
+      operations.push(value as TqlOperation)
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new TqlOperationError(issues)
+  }
+
+  return operations
+}
+
+/**
+ * Check a batch against a document without changing it
+ * Operations are tried in order on a copy, so each sees the rows left by the ones before it.
+ *
+ * @returns One issue per operation that is malformed or cannot be applied
+ */
+export function validateOperations(doc: TqlDocument, operations: TqlOperation[]): OperationIssue[] {
+  const draft = structuredClone(doc)
+  const issues: OperationIssue[] = []
+
+  for (const [i, operation] of operations.entries()) {
+    const problem = checkOperationShape(operation)
+    if (problem) {
+      issues.push({message: problem, operation: i + 1})
+      continue
+    }
+
+    try {
+      applyOperation(draft, operation)
+    } catch (error) {
+      issues.push({message: error instanceof Error ? error.message : String(error), operation: i + 1})
+    }
+  }
+
+  return issues
+}
+
+/**
+ * Apply a batch of operations as one new document with one diff
+ * Every operation is validated first; if any is invalid, nothing is applied.
+ *
+ * @param conversation - The conversation to change
+ * @param operations - Operations in the order they are applied
+ * @param options - See ApplyChangesOptions
+ * @returns Updated conversation
+ * @throws TqlOperationError listing every invalid operation
+ */
+export function applyOperations(
+  conversation: TqlConversation,
+  operations: TqlOperation[],
+  options: ApplyChangesOptions = {},
+): TqlConversation {
+  if (operations.length === 0) {
+    throw new Error('No operations to apply')
+  }
+
+  const head = getHeadIndex(conversation)
+  const issues = validateOperations(getDocuments(conversation)[head], operations)
+  if (issues.length > 0) {
+    throw new TqlOperationError(issues)
+  }
+
+  return applyChangesToConversation(
+    conversation,
+    (doc) => {
+      for (const operation of operations) {
+        applyOperation(doc, operation)
+      }
+    },
+    head,
+    options,
+  )
+}
+
+function applyOperation(doc: TqlDocument, operation: TqlOperation): void {
+  switch (operation.op) {
+    case 'delete': {
+      // Unlike deleteRowsInMemory, a batch fails when any of its rows is missing
+      const indices = operation.indices ?? [operation.index!]
+      const rows = doc[operation.facet].rows as Array<{index: number | string}>
+      const missing = indices.filter((index) => !rows.some((row) => Number(row.index) === index))
+      if (missing.length > 0) {
+        throw new Error(`No rows found with indices ${missing.join(', ')} in @${operation.facet} facet`)
+      }
+
+      deleteRowsInMemory(doc, operation.facet, indices)
+      break
+    }
+
+    case 'insert': {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      insertRowInMemory(doc, operation.facet, operation.data as any)
+      break
+    }
+
+    case 'update': {
+      updateRowInMemory(doc, operation.facet, operation.index, operation.data)
+      break
+    }
+  }
+}
+
+/**
+ * Describe what is wrong with the shape of an operation (undefined when it is well-formed)
+ */
+function checkOperationShape(value: unknown): string | undefined {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return 'Operation must be a JSON object'
+  }
+
+  const operation = value as Record<string, unknown>
+  if (!['delete', 'insert', 'update'].includes(operation.op as string)) {
+    return `Unknown op ${JSON.stringify(operation.op)} (expected insert, update or delete)`
+  }
+
+  if (typeof operation.facet !== 'string' || !isFacetName(operation.facet)) {
+    return `Unknown facet ${JSON.stringify(operation.facet)}`
+  }
+
+  if (operation.op === 'delete') {
+    const {indices} = operation
+    if (indices === undefined) {
+      return isRowIndex(operation.index) ? undefined : 'delete needs index or indices (1-based)'
+    }
+
+    if (!Array.isArray(indices) || indices.length === 0 || !indices.every((index) => isRowIndex(index))) {
+      return 'indices must be a non-empty list of row indices (1-based)'
+    }
+
+    return undefined
+  }
+
+  if (operation.op === 'update' && !isRowIndex(operation.index)) {
+    return 'update needs a row index (1-based)'
+  }
+
+  const {data} = operation
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    return `${operation.op} needs data as a JSON object`
+  }
+
+  if ('index' in data) {
+    return 'data must not contain index (rows are indexed automatically)'
+  }
+
+  return undefined
+}
+
+function isRowIndex(value: unknown): boolean {
+  return Number.isInteger(value) && (value as number) >= 1
+}
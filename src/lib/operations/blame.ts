@@ -0,0 +1,182 @@
+import type {TqlConversation, TqlDiff, TqlDocument} from '../parser/types.js'
+
+import {getFacetDefinition} from '../parser/registry.js'
+import {getDocuments, getHeadIndex, parseSequenceKey} from '../parser/types.js'
+import {getDocumentTree} from './branch.js'
+import {diffTqlDocuments} from './diff.js'
+
+/**
+ * The step that last changed one field of a row
+ */
+export interface BlameCell {
+  // Sequence key of the diff that set the value (absent when it dates from #document[+0])
+  diff?: string
+  // Document the value first appeared in
+  document: number
+  field: string
+  // Latest @query row of that document, if any
+  query?: {timestamp: string; userMessage: string}
+  value: string
+}
+
+export interface BlameRow {
+  fields: BlameCell[]
+  index: number
+  // Identity of the row, e.g. "column=amount_usd" (facets without an identity column have none)
+  key?: string
+}
+
+export interface BlameOptions {
+  // Document to blame (default: latest document of the current branch)
+  document?: number
+  // Only blame the row with this index
+  index?: number
+}
+
+type Origin = Omit<BlameCell, 'field' | 'value'>
+
+/**
+ * Report, for every row and field of a facet, the step that last changed it
+ *
+ * Walks the documents the target was derived from (following branches), from #document[+0]
+ * to the target. Each step is diffed from its two documents, so row moves and renames are
+ * followed and blame stays correct for diffs written by earlier versions.
+ *
+ * @param conversation - The conversation to blame
+ * @param facet - Facet name, e.g. 'meaning'
+ * @param options - See BlameOptions
+ */
+export function blameFacet(conversation: TqlConversation, facet: string, options: BlameOptions = {}): BlameRow[] {
+  const documents = getDocuments(conversation)
+  const target = options.document ?? getHeadIndex(conversation)
+
+  if (!documents[target]) {
+    throw new Error(`Document at index ${target} not found`)
+  }
+
+  if (!documents[target][facet]) {
+    throw new Error(`Facet @${facet} not found`)
+  }
+
+  // Documents from the root to the target, following the $diff[+i→+j] each was derived from
+  const tree = getDocumentTree(conversation)
+  const path = [target]
+  while (tree[path[0]].parent !== undefined) {
+    path.unshift(tree[path[0]].parent!)
+  }
+
+  const tableKeys = storedTableKeys(conversation)
+  const origins = new Map<number, Record<string, Origin>>()
+  const root: Origin = {document: path[0], ...queryOf(documents[path[0]])}
+  for (const row of rowsOf(documents[path[0]], facet)) {
+    origins.set(Number(row.index), Object.fromEntries(Object.keys(row).map((field) => [field, root])))
+  }
+
+  for (let i = 1; i < path.length; i++) {
+    const key = `$diff[+${path[i - 1]}→+${path[i]}]`
+    const diff = diffTqlDocuments(documents[path[i - 1]], documents[path[i]], {tableKey: tableKeys.get(key)})
+    applyStep(origins, diff, facet, {diff: key, document: path[i], ...queryOf(documents[path[i]])})
+  }
+
+  const keyColumn = getFacetDefinition(facet)?.identityKey
+
+  return rowsOf(documents[target], facet)
+    .filter((row) => options.index === undefined || Number(row.index) === options.index)
+    .map((row) => {
+      const rowOrigins = origins.get(Number(row.index)) ?? {}
+      return {
+        fields: Object.keys(row)
+          .filter((field) => field !== 'index')
+          .map((field) => ({field, ...(rowOrigins[field] ?? root), value: String(row[field] ?? '')})),
+        index: Number(row.index),
+        ...(keyColumn && {key: `${keyColumn}=${row[keyColumn]}`}),
+      }
+    })
+}
+
+/**
+ * Format blame rows for the terminal: one block per row, one line per field
+ */
+export function formatBlame(facet: string, rows: BlameRow[]): string {
+  if (rows.length === 0) {
+    return `No rows in @${facet}.`
+  }
+
+  const blocks = rows.map((row) => {
+    const fieldWidth = Math.max(...row.fields.map((cell) => cell.field.length))
+    const lines = row.fields.map((cell) => {
+      const origin = [`#document[+${cell.document}]`.padEnd(14), cell.diff?.padEnd(14) ?? ' '.repeat(14)].join('  ')
+      const query = cell.query?.userMessage ? `  "${cell.query.userMessage}"` : ''
+      return `  ${cell.field.padEnd(fieldWidth)}  ${origin}  ${cell.value}${query}`
+    })
+
+    return [`@${facet}[${row.index}]` + (row.key ? ` ${row.key}` : ''), ...lines].join('\n')
+  })
+
+  return blocks.join('\n\n')
+}
+
+/**
+ * Move the blame of rows along one diff: removed rows are dropped, moved rows keep their blame,
+ * and changed fields of modified and added rows are blamed on the step
+ */
+function applyStep(origins: Map<number, Record<string, Origin>>, diff: TqlDiff, facet: string, step: Origin): void {
+  const facetDiff = diff.facets.find((f) => f.facetName === facet)
+
+  // @table columns renamed in this step keep their blame under the new name
+  if (facet === 'table' && diff.schema) {
+    for (const [index, fields] of origins) {
+      origins.set(index, renameFields(fields, diff.schema.renamed))
+    }
+  }
+
+  if (!facetDiff || facetDiff.changes.length === 0) return
+
+  const taken = new Map<number, Record<string, Origin>>()
+  for (const change of facetDiff.changes) {
+    if (change.type === 'added' || change.type === 'unchanged') continue
+
+    const index = Number(change.previousIndex ?? change.index)
+    taken.set(index, origins.get(index) ?? {})
+    origins.delete(index)
+  }
+
+  for (const change of facetDiff.changes) {
+    if (change.type === 'removed' || change.type === 'unchanged') continue
+
+    const previous = change.type === 'added' ? {} : taken.get(Number(change.previousIndex ?? change.index)) ?? {}
+    const changed =
+      change.type === 'added' ? Object.keys(change.after ?? {}) : (change.modifiedFields ?? []).filter((f) => f !== 'index')
+
+    origins.set(Number(change.index), {...previous, ...Object.fromEntries(changed.map((field) => [field, step]))})
+  }
+}
+
+function renameFields(fields: Record<string, Origin>, renamed: {from: string; to: string}[]): Record<string, Origin> {
+  const names = new Map(renamed.map(({from, to}) => [from, to]))
+  return Object.fromEntries(Object.entries(fields).map(([field, origin]) => [names.get(field) ?? field, origin]))
+}
+
+function rowsOf(doc: TqlDocument, facet: string): Array<Record<string, unknown>> {
+  return doc[facet].rows as unknown as Array<Record<string, unknown>>
+}
+
+function queryOf(doc: TqlDocument): Pick<BlameCell, 'query'> {
+  const last = doc.query.rows.at(-1)
+  return last ? {query: {timestamp: last.timestamp_utc ?? '', userMessage: last.user_message ?? ''}} : {}
+}
+
+/**
+ * Primary keys recorded on stored @table diffs, so steps are aligned the way they were written
+ */
+function storedTableKeys(conversation: TqlConversation): Map<string, string | undefined> {
+  const keys = new Map<string, string | undefined>()
+  for (const item of conversation.sequence) {
+    const key = Object.keys(item)[0]
+    if (parseSequenceKey(key)?.kind === 'diff') {
+      keys.set(key, (Object.values(item)[0] as TqlDiff).schema?.key)
+    }
+  }
+
+  return keys
+}
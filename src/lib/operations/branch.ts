@@ -0,0 +1,133 @@
+import type {TqlConversation} from '../parser/types.js'
+
+import {DEFAULT_BRANCH, getDocumentCount, getHeadIndex, parseSequenceKey} from '../parser/types.js'
+
+// Branch names are written into the #conversation header, so they cannot contain spaces, ':' or ','
+const BRANCH_NAME_PATTERN = /^[\w./-]+$/
+
+export interface BranchInfo {
+  current: boolean
+  // Index of the branch's latest document
+  head: number
+  name: string
+}
+
+/**
+ * A document in the tree of a conversation: which document it was derived from, and which branches point at it
+ */
+export interface DocumentNode {
+  branches: string[]
+  children: number[]
+  index: number
+  // Document this one was derived from (absent for #document[+0])
+  parent?: number
+}
+
+/**
+ * List a conversation's branches (a conversation without branches has one: main, at its last document)
+ */
+export function listBranches(conversation: TqlConversation): BranchInfo[] {
+  const current = conversation.currentBranch ?? DEFAULT_BRANCH
+  const branches = conversation.branches ?? {[DEFAULT_BRANCH]: getDocumentCount(conversation) - 1}
+
+  return Object.entries(branches).map(([name, head]) => ({current: name === current, head, name}))
+}
+
+/**
+ * Create a branch pointing at a document (the current branch stays checked out)
+ *
+ * @param conversation - The conversation to branch
+ * @param name - New branch name
+ * @param fromIndex - Document the branch starts at (default: latest document of the current branch)
+ * @returns Updated conversation
+ */
+export function createBranch(conversation: TqlConversation, name: string, fromIndex?: number): TqlConversation {
+  if (!BRANCH_NAME_PATTERN.test(name)) {
+    throw new Error(`Invalid branch name "${name}" (use letters, digits, '.', '_', '-' and '/')`)
+  }
+
+  const branches = Object.fromEntries(listBranches(conversation).map((branch) => [branch.name, branch.head]))
+  if (name in branches) {
+    throw new Error(`Branch ${name} already exists`)
+  }
+
+  const head = fromIndex ?? getHeadIndex(conversation)
+  if (head < 0 || head >= getDocumentCount(conversation)) {
+    throw new Error(`Document at index ${head} not found`)
+  }
+
+  return {...conversation, branches: {...branches, [name]: head}}
+}
+
+/**
+ * Switch the branch that new documents extend and getLastDocument reads
+ */
+export function checkoutBranch(conversation: TqlConversation, name: string): TqlConversation {
+  if (!listBranches(conversation).some((branch) => branch.name === name)) {
+    throw new Error(`Branch ${name} not found`)
+  }
+
+  return {...conversation, currentBranch: name}
+}
+
+/**
+ * Build the tree of documents from the $diff[+i→+j] keys (document j is derived from document i)
+ * @returns One node per document, in document order
+ */
+export function getDocumentTree(conversation: TqlConversation): DocumentNode[] {
+  const nodes: DocumentNode[] = Array.from({length: getDocumentCount(conversation)}, (_, index) => ({
+    branches: [],
+    children: [],
+    index,
+  }))
+
+  for (const item of conversation.sequence) {
+    const parsed = parseSequenceKey(Object.keys(item)[0])
+    if (parsed?.kind !== 'diff' || !nodes[parsed.from] || !nodes[parsed.to]) continue
+
+    nodes[parsed.to].parent = parsed.from
+    nodes[parsed.from].children.push(parsed.to)
+  }
+
+  for (const branch of listBranches(conversation)) {
+    nodes[branch.head]?.branches.push(branch.name)
+  }
+
+  return nodes
+}
+
+/**
+ * Format the document tree for the terminal
+ * A document with one child continues on the next line; forks are drawn with ├─ and └─.
+ * Branch heads are labeled, with * marking the current branch.
+ */
+export function formatDocumentTree(nodes: DocumentNode[], currentBranch = DEFAULT_BRANCH): string {
+  const lines: string[] = []
+
+  const label = (node: DocumentNode) => {
+    const names = node.branches.map((name) => (name === currentBranch ? `* ${name}` : name))
+    return `#document[+${node.index}]` + (names.length > 0 ? `  (${names.join(', ')})` : '')
+  }
+
+  const render = (index: number, prefix: string, indent: string) => {
+    let node = nodes[index]
+    lines.push(prefix + label(node))
+
+    // Follow a single line of descent without indenting
+    while (node.children.length === 1) {
+      node = nodes[node.children[0]]
+      lines.push(indent + label(node))
+    }
+
+    for (const [i, child] of node.children.entries()) {
+      const last = i === node.children.length - 1
+      render(child, indent + (last ? '└─ ' : '├─ '), indent + (last ? '   ' : '│  '))
+    }
+  }
+
+  for (const root of nodes.filter((node) => node.parent === undefined)) {
+    render(root.index, '', '')
+  }
+
+  return lines.join('\n')
+}
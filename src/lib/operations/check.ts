@@ -0,0 +1,229 @@
+import type {AmbiguityRow, StructureRow, TableRow, TqlConversation} from '../parser/types.js'
+
+import {matchesDataType, parseEnumValues} from '../generators/profile.js'
+import {formatCell} from '../parser/cells.js'
+import {FACET_COLUMNS, getDocuments, getHeadIndex} from '../parser/types.js'
+import {applyChangesToConversation} from './crud.js'
+
+// @ambiguity type of rows recording broken @structure rules (replaced whenever violations are recorded)
+export const STRUCTURE_VIOLATION_TYPE = 'structure_violation'
+
+export type StructureRule = 'dataType' | 'format' | 'maxValue' | 'minValue' | 'nullAllowed'
+
+// @ambiguity risk of a broken rule: cells of the wrong type or missing can't be used at all,
+// while out-of-range or unexpected values may still be right
+const RULE_RISKS: Record<StructureRule, string> = {
+  dataType: 'high',
+  format: 'medium',
+  maxValue: 'medium',
+  minValue: 'medium',
+  nullAllowed: 'high',
+}
+
+/**
+ * A @table cell that breaks one of its column's @structure rules
+ */
+export interface StructureViolation {
+  column: string
+  // What the rule requires (e.g. "integer", "<= 5000", "TXN-2024-###")
+  expected: string
+  // Index of the @table row
+  row: number
+  rule: StructureRule
+  value: string
+}
+
+export interface CheckOptions {
+  // Document to check (default: the head of the current branch)
+  document?: number
+  // Append a document whose @ambiguity rows record the violations
+  record?: boolean
+}
+
+export interface CheckResult {
+  // The conversation, with a document appended when violations were recorded and the flags changed
+  conversation: TqlConversation
+  violations: StructureViolation[]
+}
+
+/**
+ * Run @table rows against @structure rules
+ * Blank rule fields are not checked, and rules for columns missing from the rows are skipped.
+ * A cell of the wrong dataType is reported once, without also checking its range or format.
+ *
+ * @param rules - @structure rows
+ * @param rows - @table rows
+ * @returns One violation per broken rule per cell, in rule order then row order
+ */
+export function checkStructureRules(rules: StructureRow[], rows: TableRow[]): StructureViolation[] {
+  const violations: StructureViolation[] = []
+
+  for (const rule of rules) {
+    if (rows.length === 0 || !(rule.column in rows[0])) continue
+
+    for (const row of rows) {
+      const violation = checkCell(rule, formatCell(row[rule.column]).trim())
+      if (violation) {
+        violations.push({column: rule.column, row: Number(row.index), ...violation})
+      }
+    }
+  }
+
+  return violations
+}
+
+/**
+ * Check the @table rows of a document against its @structure rules
+ *
+ * With `record`, the `structure_violation` @ambiguity rows of the document are replaced by one row
+ * per broken rule of a column, and the result is appended as a new document. Nothing is appended
+ * when those rows would not change, so checking again records nothing new.
+ *
+ * @param conversation - Conversation to check
+ * @param options - Check options
+ * @returns Violations and the (possibly updated) conversation
+ */
+export function checkConversation(conversation: TqlConversation, options: CheckOptions = {}): CheckResult {
+  const index = options.document ?? getHeadIndex(conversation)
+  const doc = getDocuments(conversation)[index]
+  if (!doc) {
+    throw new Error(`Document at index ${index} not found`)
+  }
+
+  const violations = checkStructureRules(doc.structure.rows, doc.table.rows)
+  if (!options.record) {
+    return {conversation, violations}
+  }
+
+  const kept = doc.ambiguity.rows.filter((row) => row.ambiguity_type !== STRUCTURE_VIOLATION_TYPE)
+  // Keep the facet's column order, which written diffs follow
+  const rows = [...kept, ...violationAmbiguities(violations)].map(
+    (row, i) =>
+      Object.fromEntries(
+        FACET_COLUMNS.ambiguity.map((column) => [column, column === 'index' ? i + 1 : row[column]]),
+      ) as unknown as AmbiguityRow,
+  )
+
+  if (JSON.stringify(rows) === JSON.stringify(doc.ambiguity.rows)) {
+    return {conversation, violations}
+  }
+
+  const updated = applyChangesToConversation(
+    conversation,
+    (next) => {
+      next.ambiguity.rows = rows
+    },
+    index,
+  )
+  return {conversation: updated, violations}
+}
+
+/**
+ * One `structure_violation` @ambiguity row per broken rule of a column, summarizing the offending cells
+ * in its description (risk: high for dataType and nullAllowed, medium for range and format rules)
+ */
+export function violationAmbiguities(violations: StructureViolation[]): Omit<AmbiguityRow, 'index'>[] {
+  const byRule = new Map<string, StructureViolation[]>()
+  for (const violation of violations) {
+    const key = `${violation.column}\u0000${violation.rule}`
+    byRule.set(key, [...(byRule.get(key) ?? []), violation])
+  }
+
+  return [...byRule.values()].map((group) => {
+    const [first] = group
+    const rows = group.length === 1 ? '1 row breaks' : `${group.length} rows break`
+    const description = `${rows} ${first.rule} (expected ${first.expected}), e.g. row ${first.row}: "${first.value}"`
+    return {
+      'ambiguity_risk': RULE_RISKS[first.rule],
+      'ambiguity_type': STRUCTURE_VIOLATION_TYPE,
+      description,
+      'query_trigger': first.column,
+    }
+  })
+}
+
+/**
+ * One line per violation, e.g. '@table[3] amount_usd: maxValue expected <= 5000, got "7200"'
+ */
+export function formatStructureViolation(violation: StructureViolation): string {
+  return `@table[${violation.row}] ${violation.column}: ${violation.rule} expected ${violation.expected}, got "${violation.value}"`
+}
+
+function checkCell(
+  rule: StructureRow,
+  value: string,
+): Pick<StructureViolation, 'expected' | 'rule' | 'value'> | undefined {
+  const dataType = field(rule.dataType).toLowerCase()
+
+  if (value === '') {
+    return field(rule.nullAllowed).toLowerCase() === 'false'
+      ? {expected: 'not null', rule: 'nullAllowed', value}
+      : undefined
+  }
+
+  if (dataType && !matchesDataType(value, dataType)) {
+    return {expected: dataType, rule: 'dataType', value}
+  }
+
+  const compare = comparator(dataType)
+  const min = field(rule.minValue)
+  const max = field(rule.maxValue)
+
+  if (compare && min && compare(value, min) < 0) {
+    return {expected: `>= ${min}`, rule: 'minValue', value}
+  }
+
+  if (compare && max && compare(value, max) > 0) {
+    return {expected: `<= ${max}`, rule: 'maxValue', value}
+  }
+
+  const format = field(rule.format)
+  if (format && !matchesFormat(value, dataType, format)) {
+    return {expected: dataType === 'enum' ? `one of ${format}` : format, rule: 'format', value}
+  }
+
+  return undefined
+}
+
+/**
+ * Ordering used for minValue/maxValue (numbers and dates only)
+ */
+function comparator(dataType: string): ((a: string, b: string) => number) | undefined {
+  if (dataType === 'integer' || dataType === 'decimal') {
+    return (a, b) => Number(a) - Number(b)
+  }
+
+  if (dataType === 'date' || dataType === 'datetime') {
+    return (a, b) => Date.parse(a) - Date.parse(b)
+  }
+
+  return undefined
+}
+
+/**
+ * Enum formats list the allowed values (commas inside a value escaped); string formats are ID patterns where '#' is a digit
+ * and 'A' a letter (see profileColumns). Date and datetime formats are covered by the dataType check.
+ */
+function matchesFormat(value: string, dataType: string, format: string): boolean {
+  if (dataType === 'enum') {
+    return parseEnumValues(format).includes(value)
+  }
+
+  if (dataType === 'string' || dataType === '') {
+    const pattern = [...format]
+      .map((char) => {
+        if (char === '#') return String.raw`\d`
+        if (char === 'A') return '[A-Za-z]'
+        return char.replaceAll(/[$()*+.?[\\\]^{|}]/g, String.raw`\$&`)
+      })
+      .join('')
+    return new RegExp(`^${pattern}$`).test(value)
+  }
+
+  return true
+}
+
+// Parsed rule fields are strings, but rows built in memory may leave them out
+function field(value: string | undefined): string {
+  return String(value ?? '').trim()
+}
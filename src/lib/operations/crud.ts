@@ -1,23 +1,29 @@
-import type {
-  AmbiguityRow,
-  ContextRow,
-  IntentRow,
-  MeaningRow,
-  QueryRow,
-  ScoreRow,
-  StructureRow,
-  TableRow,
-  TasksRow,
-  TqlConversation,
-  TqlDocument,
-} from '../parser/types.js'
-import {getDocuments} from '../parser/types.js'
-
 import {writeTql} from '../parser/generator.js'
 import {parseTql} from '../parser/index.js'
+import {validateFacetRow} from '../parser/registry.js'
+import {
+  type AmbiguityRow,
+  type ContextRow,
+  type CustomFacetRow,
+  DEFAULT_BRANCH,
+  type DiffMetadata,
+  getDocuments,
+  getHeadIndex,
+  type IntentRow,
+  type MeaningRow,
+  type QueryRow,
+  type ScoreRow,
+  type StructureRow,
+  type TableRow,
+  type TasksRow,
+  type TqlConversation,
+  type TqlDocument,
+} from '../parser/types.js'
 import {diffTqlDocuments} from './diff.js'
+import {applyScores} from './score.js'
 
-type FacetName = 'ambiguity' | 'context' | 'intent' | 'meaning' | 'query' | 'score' | 'structure' | 'table' | 'tasks'
+// Built-in facet names, or the name of a facet added with registerFacet
+type FacetName = 'ambiguity' | 'context' | 'intent' | 'meaning' | 'query' | 'score' | 'structure' | 'table' | 'tasks' | (string & {})
 
 type FacetRowType<T extends FacetName> = T extends 'table'
   ? TableRow
@@ -37,7 +43,7 @@ type FacetRowType<T extends FacetName> = T extends 'table'
                 ? TasksRow
                 : T extends 'score'
                   ? ScoreRow
-                  : never
+                  : CustomFacetRow
 
 // ============================================================================
 // IN-MEMORY OPERATIONS (First-class)
@@ -54,7 +60,7 @@ export function insertRowInMemory<T extends FacetName>(
   facet: T,
   data: Omit<FacetRowType<T>, 'index'>,
 ): void {
-  const currentRows = doc[facet].rows
+  const currentRows = facetRows(doc, facet)
   const nextIndex = currentRows.length + 1
 
   const rowWithIndex = {
@@ -62,7 +68,7 @@ export function insertRowInMemory<T extends FacetName>(
     ...data,
   } as FacetRowType<T>
 
-  // @ts-expect-error - TypeScript can't infer the row type correctly
+  checkRow(doc, facet, rowWithIndex)
   currentRows.push(rowWithIndex)
 }
 
@@ -77,7 +83,7 @@ export function insertRowsInMemory<T extends FacetName>(
   facet: T,
   dataArray: Array<Omit<FacetRowType<T>, 'index'>>,
 ): void {
-  const currentRows = doc[facet].rows
+  const currentRows = facetRows(doc, facet)
   let nextIndex = currentRows.length + 1
 
   for (const data of dataArray) {
@@ -86,7 +92,7 @@ export function insertRowsInMemory<T extends FacetName>(
       ...data,
     } as FacetRowType<T>
 
-    // @ts-expect-error - TypeScript can't infer the row type correctly
+    checkRow(doc, facet, rowWithIndex)
     currentRows.push(rowWithIndex)
   }
 }
@@ -102,7 +108,7 @@ export function deleteRowInMemory<T extends FacetName>(
   facet: T,
   index: number,
 ): void {
-  const currentRows = doc[facet].rows as FacetRowType<T>[]
+  const currentRows = facetRows(doc, facet)
 
   // Find the row with the matching index
   const rowIndex = currentRows.findIndex((row) => Number(row.index) === index)
@@ -131,7 +137,7 @@ export function deleteRowsInMemory<T extends FacetName>(
   facet: T,
   indices: number[],
 ): void {
-  const currentRows = doc[facet].rows as FacetRowType<T>[]
+  const currentRows = facetRows(doc, facet)
 
   // Sort indices in descending order to avoid index shifting issues
   const sortedIndices = [...indices].sort((a, b) => b - a)
@@ -171,7 +177,7 @@ export function updateRowInMemory<T extends FacetName>(
   index: number,
   data: Partial<Omit<FacetRowType<T>, 'index'>>,
 ): void {
-  const currentRows = doc[facet].rows as FacetRowType<T>[]
+  const currentRows = facetRows(doc, facet)
 
   // Find the row with the matching index
   const rowIndex = currentRows.findIndex((row) => Number(row.index) === index)
@@ -181,11 +187,45 @@ export function updateRowInMemory<T extends FacetName>(
   }
 
   // Update the row (merge with existing data, preserve original index)
-  currentRows[rowIndex] = {
+  const updated = {
     ...currentRows[rowIndex],
     ...data,
     index: currentRows[rowIndex].index, // Preserve the original index (keep exact type and value)
   } as FacetRowType<T>
+
+  checkRow(doc, facet, updated, Object.keys(data))
+  currentRows[rowIndex] = updated
+}
+
+/**
+ * Rows of a facet, typed for the facet
+ * @throws Error when the document has no such facet (e.g. a custom facet registered after it was read)
+ */
+function facetRows<T extends FacetName>(doc: TqlDocument, facet: T): FacetRowType<T>[] {
+  if (!doc[facet]) {
+    throw new Error(`Facet @${facet} not found`)
+  }
+
+  return doc[facet].rows as FacetRowType<T>[]
+}
+
+/**
+ * Check a row against its facet's schema (see validateFacetRow)
+ * Rows of `@table` may only use the columns the table already has.
+ *
+ * @param doc - Document the row is written to
+ * @param facet - Facet name
+ * @param row - Row to check
+ * @param fields - Only check these fields (updates check the fields they change)
+ * @throws Error listing every invalid field
+ */
+function checkRow(doc: TqlDocument, facet: string, row: object, fields?: string[]): void {
+  const [first] = doc.table.rows
+  const columns = facet === 'table' && first ? Object.keys(first) : undefined
+  const problems = validateFacetRow(facet, row as Record<string, unknown>, {columns, fields})
+  if (problems.length > 0) {
+    throw new Error(`Invalid @${facet} row: ${problems.join('; ')}`)
+  }
 }
 
 // ============================================================================
@@ -318,11 +358,32 @@ export function updateRow<T extends FacetName>(
 // CONVERSATION OPERATIONS (With Diff Generation)
 // ============================================================================
 
+export interface ApplyChangesOptions {
+  // Who made the change and why, stored with the diff
+  metadata?: DiffMetadata
+  // Recompute @score on the new document (default: true)
+  recomputeScores?: boolean
+  // Primary-key column used to match @table rows if the changes touch @table (default: match by index)
+  tableKey?: string
+}
+
 /**
- * Deep clone a TqlDocument
+ * Build diff metadata, stamped with the current time unless a timestamp is given
+ * @returns undefined when no author, actor, reason or query index is set
  */
-function deepCloneDocument(doc: TqlDocument): TqlDocument {
-  return JSON.parse(JSON.stringify(doc)) as TqlDocument
+export function createDiffMetadata(fields: DiffMetadata): DiffMetadata | undefined {
+  const {actor, author, queryIndex, reason} = fields
+  if (actor === undefined && author === undefined && queryIndex === undefined && reason === undefined) {
+    return undefined
+  }
+
+  return {
+    ...(author !== undefined && {author}),
+    ...(actor !== undefined && {actor}),
+    timestamp: fields.timestamp ?? new Date().toISOString(),
+    ...(reason !== undefined && {reason}),
+    ...(queryIndex !== undefined && {queryIndex}),
+  }
 }
 
 /**
@@ -331,35 +392,54 @@ function deepCloneDocument(doc: TqlDocument): TqlDocument {
  *
  * @param conversation - The conversation to modify
  * @param changes - Function that applies changes to the cloned document
- * @param sourceDocIndex - Index of document to base changes on (default: last document)
+ * @param sourceDocIndex - Index of document to base changes on (default: latest document of the current branch;
+ *   branches only move when it is the current branch's latest document)
+ * @param options - See ApplyChangesOptions
  * @returns Updated conversation with new document and diff appended to sequence
+ * @throws Error if options.metadata names a query index that is not an @query row
  */
 export function applyChangesToConversation(
   conversation: TqlConversation,
   changes: (doc: TqlDocument) => void,
   sourceDocIndex?: number,
+  options: ApplyChangesOptions = {},
 ): TqlConversation {
   // Get all documents from sequence
   const documents = conversation.sequence
     .filter((item) => Object.keys(item)[0].startsWith('#document'))
     .map((item) => Object.values(item)[0] as TqlDocument)
 
-  // Default to last document
-  const fromIndex = sourceDocIndex ?? documents.length - 1
+  // Default to the latest document of the current branch
+  const fromIndex = sourceDocIndex ?? getHeadIndex(conversation)
   const originalDoc = documents[fromIndex]
 
   if (!originalDoc) {
     throw new Error(`Document at index ${fromIndex} not found`)
   }
 
-  // Clone the source document
-  const newDoc = deepCloneDocument(originalDoc)
+  // Clone the source document (structuredClone keeps typed cells such as Dates)
+  const newDoc = structuredClone(originalDoc)
 
   // Apply changes to the new document
   changes(newDoc)
 
+  // The query a change is attributed to must exist before or after it (a change can add its own query)
+  const queryIndex = options.metadata?.queryIndex
+  const hasQuery = (doc: TqlDocument) => doc.query.rows.some((row) => Number(row.index) === queryIndex)
+  if (queryIndex !== undefined && !hasQuery(originalDoc) && !hasQuery(newDoc)) {
+    throw new Error(`Query index ${queryIndex} does not match any @query row`)
+  }
+
+  // Recompute @score so the trajectory across documents reflects the changes
+  if (options.recomputeScores ?? true) {
+    applyScores(newDoc)
+  }
+
   // Generate diff between original and new
-  const diff = diffTqlDocuments(originalDoc, newDoc)
+  const diff = diffTqlDocuments(originalDoc, newDoc, {tableKey: options.tableKey})
+  if (options.metadata) {
+    diff.metadata = options.metadata
+  }
 
   // Create new sequence with appended diff and document
   const toIndex = documents.length
@@ -369,7 +449,44 @@ export function applyChangesToConversation(
     {[`#document[+${toIndex}]`]: newDoc} as any,
   ]
 
+  // The current branch (if any) moves on to the new document when the change was made on its head;
+  // a change to a document elsewhere leaves every branch where it was
+  const branch = conversation.currentBranch ?? DEFAULT_BRANCH
+  const onHead = fromIndex === getHeadIndex(conversation)
+  const branches =
+    conversation.branches && (onHead ? {...conversation.branches, [branch]: toIndex} : conversation.branches)
+
   return {
+    ...conversation,
+    ...(branches && {branches}),
     sequence: newSequence,
   }
 }
+
+/**
+ * Append a copy of an earlier document to the conversation (with the diff from the latest document)
+ * History stays append-only: reverting adds a new step instead of removing any.
+ *
+ * @param conversation - The conversation to revert
+ * @param documentIndex - Index of the document to restore
+ * @returns Updated conversation whose last document equals document documentIndex
+ */
+export function revertToDocument(conversation: TqlConversation, documentIndex: number): TqlConversation {
+  const documents = getDocuments(conversation)
+  const target = documents[documentIndex]
+
+  if (!target) {
+    throw new Error(`Document at index ${documentIndex} not found`)
+  }
+
+  const restored = structuredClone(target)
+
+  return applyChangesToConversation(
+    conversation,
+    (doc) => {
+      Object.assign(doc, restored)
+    },
+    undefined,
+    {recomputeScores: false},
+  )
+}
@@ -1,35 +1,54 @@
-import type {FacetDiff, RowChange, TqlConversation, TqlDiff, TqlDocument} from '../parser/types.js'
-import {getDocuments} from '../parser/types.js'
+import type {
+  ChangeType,
+  DiffMetadata,
+  FacetDiff,
+  RowChange,
+  TableRow,
+  TableSchemaDiff,
+  TqlConversation,
+  TqlDiff,
+  TqlDocument,
+} from '../parser/types.js'
+
+import {cellsEqual, formatCell} from '../parser/cells.js'
+import {escapeCell} from '../parser/escape.js'
+import {getFacetDefinition, getFacetNames} from '../parser/registry.js'
+import {getDocuments, parseSequenceKey} from '../parser/types.js'
+
+export interface DiffOptions {
+  // Primary-key column used to match @table rows when the data changed (default: match by index)
+  tableKey?: string
+}
 
 /**
  * Compare two TQL documents and return a structured diff
- * Throws error if @table differs between documents
+ * When @table differs, its rows are matched by options.tableKey (or index) and column
+ * changes are reported in diff.schema, with status 'table_changed'.
+ *
+ * @throws Error if options.tableKey is missing, empty or duplicated in either @table
  */
-export function diffTqlDocuments(before: TqlDocument, after: TqlDocument): TqlDiff {
-  // Check if @table matches exactly
-  const tableMatches = deepEqual(before.table.rows, after.table.rows)
-
-  if (!tableMatches) {
-    throw new Error('DIFF operations can only be performed on matching datasets')
+export function diffTqlDocuments(before: TqlDocument, after: TqlDocument, options: DiffOptions = {}): TqlDiff {
+  if (options.tableKey) {
+    checkTableKey(options.tableKey, 'before', before.table.rows)
+    checkTableKey(options.tableKey, 'after', after.table.rows)
   }
 
   // Compute diffs for each facet
   const facetDiffs: FacetDiff[] = []
-  const facetNames: Array<keyof TqlDocument> = [
-    'table',
-    'meaning',
-    'structure',
-    'ambiguity',
-    'intent',
-    'context',
-    'query',
-    'tasks',
-    'score',
-  ]
+  // Registered facets count only when either document has them
+  const facetNames = getFacetNames().filter((name) => name !== 'table' && (before[name] || after[name]))
+
+  // @table is compared cell by cell only when it differs
+  const table = deepEqual(before.table.rows, after.table.rows)
+    ? {facet: computeFacetDiff('table', before.table.rows, after.table.rows)}
+    : computeTableDiff(before.table.rows, after.table.rows, options.tableKey)
+  facetDiffs.push(table.facet)
 
   for (const facetName of facetNames) {
-    const facetDiff = computeFacetDiff(facetName, before[facetName].rows, after[facetName].rows)
-    facetDiffs.push(facetDiff)
+    const beforeRows = before[facetName]?.rows ?? []
+    const afterRows = after[facetName]?.rows ?? []
+    const key = identityKey(getFacetDefinition(facetName)?.identityKey, beforeRows, afterRows)
+    facetDiffs.push(computeFacetDiff(facetName, beforeRows, afterRows, key))
   }
 
   // Calculate summary
@@ -39,13 +58,159 @@ export function diffTqlDocuments(before: TqlDocument, after: TqlDocument): TqlDi
 
   return {
     facets: facetDiffs,
-    status: 'success',
+    ...(table.schema && {schema: table.schema}),
+    status: table.schema ? 'table_changed' : 'success',
     summary: {
       totalFacetsChanged: facetsChanged,
       totalFacetsUnchanged: facetsUnchanged,
       totalRowChanges,
+      ...countRowChanges(facetDiffs),
+    },
+  }
+}
+
+/**
+ * Count added, modified, moved and removed rows across facet diffs
+ */
+export function countRowChanges(
+  facets: FacetDiff[],
+): Pick<TqlDiff['summary'], 'totalRowsAdded' | 'totalRowsModified' | 'totalRowsMoved' | 'totalRowsRemoved'> {
+  const changes = facets.flatMap((f) => f.changes)
+  return {
+    totalRowsAdded: changes.filter((c) => c.type === 'added').length,
+    totalRowsModified: changes.filter((c) => c.type === 'modified').length,
+    totalRowsMoved: changes.filter((c) => c.type === 'moved').length,
+    totalRowsRemoved: changes.filter((c) => c.type === 'removed').length,
+  }
+}
+
+/**
+ * Apply a diff to a document, returning a new document (the input is not modified)
+ * Rows are matched by index; throws if a change does not match the document's current rows.
+ */
+export function applyDiff(doc: TqlDocument, diff: TqlDiff): TqlDocument {
+  const result = structuredClone(doc)
+
+  // Column renames come first: @table row changes are written with the after column names
+  if (diff.schema) {
+    result.table.rows = renameColumns(result.table.rows, diff.schema.renamed)
+  }
+
+  for (const facetDiff of diff.facets) {
+    if (facetDiff.changes.length === 0) continue
+
+    const facetName = facetDiff.facetName as keyof TqlDocument
+    if (!result[facetName]) {
+      throw new Error(`Cannot apply diff: unknown facet @${facetDiff.facetName}`)
+    }
+
+    const rows = new Map<number, Record<string, unknown>>(
+      (result[facetName].rows as Array<Record<string, unknown>>).map((row) => [Number(row.index), row]),
+    )
+
+    // Take out every removed, modified and moved row first, so rows can swap or reuse indices
+    for (const change of facetDiff.changes) {
+      if (change.type === 'added' || change.type === 'unchanged') continue
+
+      const index = Number(change.previousIndex ?? change.index)
+      const current = rows.get(index)
+      const where = `@${facetDiff.facetName}[${index}]`
+
+      if (!current) throw new Error(`Cannot apply diff: ${where} not found`)
+      if (change.before && !sameRow(current, change.before)) {
+        throw new Error(`Cannot apply diff: ${where} does not match the diff's before row`)
+      }
+
+      rows.delete(index)
+    }
+
+    // Then place added, modified and moved rows at their new index
+    for (const change of facetDiff.changes) {
+      if (change.type === 'removed' || change.type === 'unchanged') continue
+
+      const index = Number(change.index)
+      if (rows.has(index)) {
+        throw new Error(`Cannot apply diff: @${facetDiff.facetName}[${index}] already exists`)
+      }
+
+      rows.set(index, {...change.after})
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    result[facetName].rows = [...rows.entries()].sort(([a], [b]) => a - b).map(([, row]) => row) as any
+  }
+
+  // Finally give every @table row the after table's columns, in order
+  if (diff.schema) {
+    const {columns} = diff.schema
+    result.table.rows = result.table.rows.map(
+      (row) => Object.fromEntries(columns.map((column) => [column, row[column] ?? ''])) as TableRow,
+    )
+  }
+
+  return result
+}
+
+/**
+ * Invert a diff so that applying it undoes the original (before ↔ after, added ↔ removed)
+ */
+export function invertDiff(diff: TqlDiff): TqlDiff {
+  const {schema} = diff
+  // Inverted @table rows are expressed in the original (before) column names
+  const restoreNames = (row?: Record<string, string>) =>
+    row && schema ? renameColumns([row], schema.renamed.map(({from, to}) => ({from: to, to: from})))[0] : row
+
+  const facets = diff.facets.map((facetDiff) => {
+    const rename = facetDiff.facetName === 'table' ? restoreNames : (row?: Record<string, string>) => row
+    return {
+      changes: facetDiff.changes.map((change) => ({
+        ...change,
+        after: rename(change.before),
+        before: rename(change.after),
+        // A moved row moves back from its new index to its previous one
+        ...(change.previousIndex === undefined ? {} : {index: change.previousIndex, previousIndex: change.index}),
+        type: invertChangeType(change.type),
+      })),
+      facetName: facetDiff.facetName,
+      rowsAfter: facetDiff.rowsBefore,
+      rowsBefore: facetDiff.rowsAfter,
+      status: invertChangeType(facetDiff.status),
+    }
+  })
+
+  const inverted: TqlDiff = {
+    ...diff,
+    facets,
+    ...(schema && {schema: invertSchema(schema)}),
+    summary: {
+      ...diff.summary,
+      totalRowsAdded: diff.summary.totalRowsRemoved,
+      totalRowsRemoved: diff.summary.totalRowsAdded,
     },
   }
+
+  // Attribution describes the original change, not its undoing
+  delete inverted.metadata
+  return inverted
+}
+
+/**
+ * Invert a table schema diff
+ * The before column order is not recorded, so it is rebuilt from the after order:
+ * renamed columns take back their old names in place, removed columns are appended.
+ */
+function invertSchema(schema: TableSchemaDiff): TableSchemaDiff {
+  const columns = schema.columns
+    .filter((column) => !schema.added.includes(column))
+    .map((column) => schema.renamed.find((rename) => rename.to === column)?.from ?? column)
+
+  return {
+    added: schema.removed,
+    columns: [...columns, ...schema.removed],
+    ...(schema.key && {key: schema.renamed.find((rename) => rename.to === schema.key)?.from ?? schema.key}),
+    removed: schema.added,
+    renamed: schema.renamed.map(({from, to}) => ({from: to, to: from})),
+  }
 }
 
 /**
@@ -55,6 +220,7 @@ export function diffConversationStep(
   conversation: TqlConversation,
   fromIndex: number,
   toIndex: number,
+  options: DiffOptions = {},
 ): TqlDiff {
   const documents = getDocuments(conversation)
 
@@ -69,7 +235,74 @@ export function diffConversationStep(
   const before = documents[fromIndex]
   const after = documents[toIndex]
 
-  return diffTqlDocuments(before, after)
+  return diffTqlDocuments(before, after, options)
+}
+
+// A stored $diff that does not match its neighboring documents
+export interface DiffMismatch {
+  // Diff recomputed from the documents (absent when it could not be computed)
+  expected?: TqlDiff
+  // Sequence key of the stored diff, e.g. $diff[+0→+1]
+  key: string
+  message: string
+}
+
+export interface VerifyResult {
+  mismatches: DiffMismatch[]
+  valid: boolean
+}
+
+/**
+ * Recompute every $diff[+i→+j] from documents i and j and report the ones that don't match
+ * Diffs are compared in their serialized form, i.e. as they would be written to a .tql file.
+ */
+export function verifyConversation(conversation: TqlConversation): VerifyResult {
+  const documents = new Map<number, TqlDocument>()
+  for (const item of conversation.sequence) {
+    const parsed = parseSequenceKey(Object.keys(item)[0])
+    if (parsed?.kind === 'document') {
+      documents.set(parsed.index, Object.values(item)[0] as TqlDocument)
+    }
+  }
+
+  const mismatches: DiffMismatch[] = []
+
+  for (const item of conversation.sequence) {
+    const key = Object.keys(item)[0]
+    const parsed = parseSequenceKey(key)
+    if (parsed?.kind !== 'diff') continue
+
+    const before = documents.get(parsed.from)
+    const after = documents.get(parsed.to)
+    if (!before || !after) {
+      const missing = before ? parsed.to : parsed.from
+      mismatches.push({key, message: `#document[+${missing}] not found`})
+      continue
+    }
+
+    const stored = Object.values(item)[0] as TqlDiff
+    let expected: TqlDiff
+    try {
+      // Metadata cannot be derived from the documents, so it is taken as stored
+      expected = {
+        ...diffTqlDocuments(before, after, {tableKey: stored.schema?.key}),
+        ...(stored.metadata && {metadata: stored.metadata}),
+      }
+    } catch (error) {
+      mismatches.push({key, message: error instanceof Error ? error.message : String(error)})
+      continue
+    }
+
+    if (formatDiffAsMarkdown(stored, false, true) !== formatDiffAsMarkdown(expected, false, true)) {
+      mismatches.push({
+        expected,
+        key,
+        message: `Stored diff does not match #document[+${parsed.from}] → #document[+${parsed.to}]`,
+      })
+    }
+  }
+
+  return {mismatches, valid: mismatches.length === 0}
 }
 
 /**
@@ -81,44 +314,48 @@ function computeFacetDiff(
   beforeRows: any[],
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   afterRows: any[],
+  key?: string,
 ): FacetDiff {
   const changes: RowChange[] = []
 
-  // Create maps by index for easy lookup
-  const beforeMap = new Map(beforeRows.map((row) => [row.index, row]))
-  const afterMap = new Map(afterRows.map((row) => [row.index, row]))
+  // Align rows by the identity key (e.g. @context key) when given, otherwise by index
+  const identify = rowIdentity(key)
+  const beforeMap = new Map(beforeRows.map((row) => [identify(row), row]))
+  const afterMap = new Map(afterRows.map((row) => [identify(row), row]))
 
-  // Get all unique indices
-  const allIndices = new Set([...afterMap.keys(), ...beforeMap.keys()])
+  // Get all unique identities
+  const allIds = new Set([...afterMap.keys(), ...beforeMap.keys()])
 
-  for (const index of allIndices) {
-    const beforeRow = beforeMap.get(index)
-    const afterRow = afterMap.get(index)
+  for (const id of allIds) {
+    const beforeRow = beforeMap.get(id)
+    const afterRow = afterMap.get(id)
 
     if (!beforeRow && afterRow) {
       // Row added
       changes.push({
         after: afterRow as Record<string, string>,
-        index,
+        index: afterRow.index,
         type: 'added',
       })
     } else if (beforeRow && !afterRow) {
       // Row removed
       changes.push({
         before: beforeRow as Record<string, string>,
-        index,
+        index: beforeRow.index,
         type: 'removed',
       })
     } else if (beforeRow && afterRow) {
-      // Check if row modified
+      // Check if row modified and/or moved to another index
       const modifiedFields = getModifiedFields(beforeRow, afterRow)
-      if (modifiedFields.length > 0) {
+      const moved = Number(beforeRow.index) !== Number(afterRow.index)
+      if (modifiedFields.length > 0 || moved) {
         changes.push({
           after: afterRow as Record<string, string>,
           before: beforeRow as Record<string, string>,
-          index,
-          modifiedFields,
-          type: 'modified',
+          index: afterRow.index,
+          ...(modifiedFields.length > 0 && {modifiedFields}),
+          ...(moved && {previousIndex: beforeRow.index}),
+          type: modifiedFields.length > 0 ? 'modified' : 'moved',
         })
       }
     }
@@ -143,6 +380,138 @@ function computeFacetDiff(
   }
 }
 
+/**
+ * Compute the @table diff: rows matched by the primary-key column (or index), renamed columns
+ * detected from their values, and the column changes returned as the schema diff
+ */
+function computeTableDiff(
+  beforeRows: TableRow[],
+  afterRows: TableRow[],
+  tableKey?: string,
+): {facet: FacetDiff; schema?: TableSchemaDiff} {
+  const beforeColumns = columnsOf(beforeRows)
+  const afterColumns = columnsOf(afterRows)
+  const added = afterColumns.filter((column) => !beforeColumns.includes(column))
+  const removed = beforeColumns.filter((column) => !afterColumns.includes(column))
+  const key = identityKey(tableKey, beforeRows, afterRows)
+
+  // A removed column whose values reappear under an added column in most matched rows was renamed
+  const identify = rowIdentity(key)
+  const afterById = new Map(afterRows.map((row) => [identify(row), row]))
+  const pairs = beforeRows.flatMap((row) => {
+    const match = afterById.get(identify(row))
+    return match ? [[row, match] as const] : []
+  })
+  const renamed: TableSchemaDiff['renamed'] = []
+  for (const from of removed) {
+    let best: undefined | {column: string; matches: number}
+    for (const column of added) {
+      if (renamed.some((rename) => rename.to === column)) continue
+      const matches = pairs.filter(([b, a]) => cellsEqual(b[from], a[column])).length
+      if (matches * 2 > pairs.length && (!best || matches > best.matches)) best = {column, matches}
+    }
+
+    if (best) renamed.push({from, to: best.column})
+  }
+
+  // Row changes are expressed in the after table's column names
+  const facet = computeFacetDiff('table', renameColumns(beforeRows, renamed), afterRows, key)
+
+  if (facet.status === 'unchanged' && deepEqual(beforeColumns, afterColumns)) {
+    return {facet}
+  }
+
+  // Column changes alone (a rename, or a column added with empty cells) still change @table
+  return {
+    facet: facet.status === 'unchanged' ? {...facet, status: 'modified'} : facet,
+    schema: {
+      added: added.filter((column) => !renamed.some((rename) => rename.to === column)),
+      columns: afterColumns,
+      ...(key && {key}),
+      removed: removed.filter((column) => !renamed.some((rename) => rename.from === column)),
+      renamed,
+    },
+  }
+}
+
+/**
+ * Column names of a set of rows, in first-seen order
+ */
+function columnsOf(rows: Array<Record<string, unknown>>): string[] {
+  return [...new Set(rows.flatMap((row) => Object.keys(row)))]
+}
+
+/**
+ * Copy rows with renamed columns (keeping column order)
+ */
+function renameColumns<T extends Record<string, unknown>>(rows: T[], renamed: TableSchemaDiff['renamed']): T[] {
+  if (renamed.length === 0) return rows
+
+  return rows.map(
+    (row) =>
+      Object.fromEntries(
+        Object.entries(row).map(([column, value]) => [renamed.find((r) => r.from === column)?.to ?? column, value]),
+      ) as T,
+  )
+}
+
+/**
+ * Check that every row of a @table has a distinct, non-empty value for the key column
+ * Unlike identityKey, an explicit key that cannot identify rows is an error, not a fallback to index.
+ */
+function checkTableKey(key: string, side: 'after' | 'before', rows: TableRow[]): void {
+  const seen = new Map<string, number>()
+
+  for (const [i, row] of rows.entries()) {
+    if (!(key in row)) {
+      throw new Error(`Key column "${key}" is not in the ${side} @table`)
+    }
+
+    const value = formatCell(row[key])
+    if (value === '') {
+      throw new Error(`Key column "${key}" is empty in ${side} @table row ${i + 1}`)
+    }
+
+    if (seen.has(value)) {
+      throw new Error(
+        `Key column "${key}" has duplicate value "${value}" in ${side} @table rows ${seen.get(value)} and ${i + 1}`,
+      )
+    }
+
+    seen.set(value, i + 1)
+  }
+}
+
+/**
+ * Return the identity key if every row on both sides has a distinct, non-empty value for it
+ */
+function identityKey(
+  key: string | undefined,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  beforeRows: any[],
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  afterRows: any[],
+): string | undefined {
+  const hasDistinctKeys = (rows: Array<Record<string, unknown>>) => {
+    const values = rows.map((row) => formatCell(row[key!]))
+    return values.every((value) => value !== '') && new Set(values).size === values.length
+  }
+
+  return key && hasDistinctKeys(beforeRows) && hasDistinctKeys(afterRows) ? key : undefined
+}
+
+/**
+ * Build the function that identifies a row when aligning before and after rows:
+ * its identity key value, or its (numeric) index when there is no key
+ */
+function rowIdentity(key?: string): (row: Record<string, unknown>) => string {
+  if (key) {
+    return (row) => `${key}:${formatCell(row[key])}`
+  }
+
+  return (row) => `index:${Number(row.index)}`
+}
+
 /**
  * Get list of fields that changed between two rows
  */
@@ -152,7 +521,7 @@ function getModifiedFields(before: Record<string, unknown>, after: Record<string
 
   for (const key of allKeys) {
     if (key === 'index') continue // Skip index field
-    if (before[key] !== after[key]) {
+    if (!cellsEqual(before[key], after[key])) {
       modifiedFields.push(key)
     }
   }
@@ -160,6 +529,21 @@ function getModifiedFields(before: Record<string, unknown>, after: Record<string
   return modifiedFields
 }
 
+function invertChangeType(type: ChangeType): ChangeType {
+  if (type === 'added') return 'removed'
+  if (type === 'removed') return 'added'
+  return type
+}
+
+/**
+ * Compare two rows field by field as text, ignoring the index
+ */
+function sameRow(a: Record<string, unknown>, b: Record<string, unknown>): boolean {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)])
+  keys.delete('index')
+  return [...keys].every((key) => cellsEqual(a[key], b[key]))
+}
+
 /**
  * Deep equality check for table rows
  */
@@ -182,21 +566,33 @@ const COLORS = {
 /**
  * Format diff as markdown tables with terminal colors
  * Git-style: red for deletions (-), green for additions (+)
+ *
+ * Each facet header records its status and row counts (`@meaning[2]: modified 9→9`),
+ * and the after row of a modification lists the fields that changed (`+ definition`, or `+ index` for a move).
+ * Pass includeUnchanged to also write unchanged facets, as .tql files do, so the diff
+ * can be read back exactly. When @table changed, an @schema section lists its columns.
  */
-export function formatDiffAsMarkdown(diff: TqlDiff, useColors = true): string {
-  if (diff.status === 'table_changed') {
-    return 'Error: DIFF operations can only be performed on matching datasets'
+export function formatDiffAsMarkdown(diff: TqlDiff, useColors = true, includeUnchanged = false): string {
+  const sections: string[] = []
+
+  // Who made the change and why comes first, then column changes of @table
+  const metadata = diff.metadata && formatDiffMetadata(diff.metadata)
+  if (metadata) {
+    sections.push(metadata)
   }
 
-  const sections: string[] = []
+  if (diff.schema) {
+    sections.push(formatSchemaDiff(diff.schema, useColors))
+  }
 
-  // Show each facet that changed (only changed facets)
+  // Show each facet that changed (and unchanged ones when requested)
   const changedFacets = diff.facets.filter((f) => f.status !== 'unchanged')
+  const shownFacets = includeUnchanged ? diff.facets : changedFacets
 
-  if (changedFacets.length === 0) {
+  if (shownFacets.length === 0) {
     sections.push('No changes detected.')
   } else {
-    for (const facet of changedFacets) {
+    for (const facet of shownFacets) {
       sections.push(formatFacetDiff(facet, useColors))
     }
   }
@@ -204,41 +600,124 @@ export function formatDiffAsMarkdown(diff: TqlDiff, useColors = true): string {
   return sections.join('\n\n')
 }
 
+// Order of @metadata rows
+const METADATA_FIELDS = ['author', 'actor', 'timestamp', 'reason', 'queryIndex'] as const
+
+/**
+ * Format diff metadata as an @metadata section of field/value rows (undefined when every field is empty)
+ */
+function formatDiffMetadata(metadata: DiffMetadata): string | undefined {
+  const rows = METADATA_FIELDS.filter((field) => metadata[field] !== undefined && metadata[field] !== '').map(
+    (field) => [field, escapeCell(String(metadata[field]))],
+  )
+  if (rows.length === 0) return undefined
+
+  const colWidths = [0, 1].map((i) => Math.max(['field', 'value'][i].length, ...rows.map((cells) => cells[i].length)))
+  return [
+    `@metadata[${rows.length}]:`,
+    '',
+    `| ${'field'.padEnd(colWidths[0])} | ${'value'.padEnd(colWidths[1])} |`,
+    '|' + colWidths.map((w) => '-'.repeat(w + 2)).join('|') + '|',
+    ...rows.map((cells) => `| ${cells.map((cell, i) => cell.padEnd(colWidths[i])).join(' | ')} |`),
+  ].join('\n')
+}
+
+/**
+ * Format @table column changes as an @schema section
+ * One row per after column in order ("+" added, ">" renamed from previous, blank kept),
+ * then the removed columns ("-"). The header names the primary key rows were matched by.
+ */
+function formatSchemaDiff(schema: TableSchemaDiff, useColors: boolean): string {
+  const changeCount = schema.added.length + schema.removed.length + schema.renamed.length
+  const header = `@schema[${changeCount}]:` + (schema.key ? ` key=${escapeCell(schema.key)}` : '')
+
+  const rows: Array<{color?: 'green' | 'red' | 'yellow'; delta: string; name: string; previous: string}> = [
+    ...schema.columns.map((name) => {
+      const rename = schema.renamed.find((r) => r.to === name)
+      if (rename) return {color: 'yellow' as const, delta: '>', name, previous: rename.from}
+      if (schema.added.includes(name)) return {color: 'green' as const, delta: '+', name, previous: ''}
+      return {delta: '', name, previous: ''}
+    }),
+    ...schema.removed.map((name) => ({color: 'red' as const, delta: '-', name, previous: ''})),
+  ]
+
+  const cellRows = rows.map(({delta, name, previous}) => [delta, escapeCell(name), escapeCell(previous)])
+  const headerCols = ['Δ', 'column', 'previous']
+  const colWidths = headerCols.map((col, i) => Math.max(col.length, 3, ...cellRows.map((cells) => cells[i].length)))
+
+  const lines = [
+    header,
+    '',
+    '| ' + headerCols.map((h, i) => h.padEnd(colWidths[i])).join(' | ') + ' |',
+    '|' + colWidths.map((w) => '-'.repeat(w + 2)).join('|') + '|',
+  ]
+  for (const [r, cells] of cellRows.entries()) {
+    const line = `| ${cells.map((cell, i) => cell.padEnd(colWidths[i])).join(' | ')} |`
+    const {color} = rows[r]
+    lines.push(color ? colorize(line, color, useColors) : line)
+  }
+
+  return lines.join('\n')
+}
+
 /**
  * Format a single facet diff as a markdown table
  */
 function formatFacetDiff(facet: FacetDiff, useColors: boolean): string {
   const lines: string[] = []
 
-  // Use @facet[n] syntax where n is number of changes
-  lines.push(`@${facet.facetName}[${facet.changes.length}]:`)
+  // Use @facet[n] syntax where n is number of changes, followed by status and row counts
+  lines.push(`@${facet.facetName}[${facet.changes.length}]: ${facet.status} ${facet.rowsBefore}→${facet.rowsAfter}`)
 
   if (facet.changes.length === 0) {
     return lines.join('\n')
   }
 
-  // Get all column names from the first row (before or after)
-  const firstChange = facet.changes[0]
-  const sampleRow = firstChange.before || firstChange.after
-  if (!sampleRow) return lines.join('\n')
+  // Column names from every row in the diff, in first-seen order
+  const columns = [
+    ...new Set(facet.changes.flatMap((change) => [change.before, change.after].flatMap((row) => Object.keys(row ?? {})))),
+  ]
 
-  const columns = Object.keys(sampleRow)
+  // One table row per before/after side, tagged with its delta marker
+  const tableRows: Array<{color: 'green' | 'red'; delta: string; row: Record<string, string>}> = []
+  for (const change of facet.changes) {
+    switch (change.type) {
+      case 'added': {
+        tableRows.push({color: 'green', delta: '+', row: change.after!})
+        break
+      }
 
-  // Build table header
-  const headerCols = ['Δ', ...columns]
-  const colWidths = headerCols.map((col) => Math.max(col.length, 3))
+      case 'modified':
+      case 'moved': {
+        // Two rows: - (before) and + (after, listing the modified fields, with index first when it moved)
+        const fields = [...(change.previousIndex === undefined ? [] : ['index']), ...(change.modifiedFields ?? [])]
+          .map((field) => escapeCell(field))
+          .join(', ')
+        tableRows.push(
+          {color: 'red', delta: '-', row: change.before!},
+          {color: 'green', delta: fields ? `+ ${fields}` : '+', row: change.after!},
+        )
+        break
+      }
 
-  // Calculate column widths based on data
-  for (const change of facet.changes) {
-    const rows = [change.before, change.after].filter(Boolean) as Record<string, string>[]
-    for (const row of rows) {
-      for (const [i, col] of columns.entries()) {
-        const value = String(row[col] || '')
-        colWidths[i + 1] = Math.max(colWidths[i + 1], value.length)
+      case 'removed': {
+        tableRows.push({color: 'red', delta: '-', row: change.before!})
+        break
+      }
+
+      default: {
+        break
       }
     }
   }
 
+  // Build table header
+  const headerCols = ['Δ', ...columns.map((col) => escapeCell(col))]
+  const cellRows = tableRows.map(({delta, row}) => [delta, ...columns.map((col) => escapeCell(row[col]))])
+
+  // Calculate column widths based on data
+  const colWidths = headerCols.map((col, i) => Math.max(col.length, 3, ...cellRows.map((cells) => cells[i].length)))
+
   // Header row
   const headerRow = '| ' + headerCols.map((h, i) => h.padEnd(colWidths[i])).join(' | ') + ' |'
   lines.push('', headerRow)
@@ -248,48 +727,15 @@ function formatFacetDiff(facet: FacetDiff, useColors: boolean): string {
   lines.push(separator)
 
   // Data rows
-  for (const change of facet.changes) {
-    switch (change.type) {
-    case 'added': {
-      // Single row with +
-      const cells = columns.map((col, i) => String(change.after![col] || '').padEnd(colWidths[i + 1]))
-      const delta = useColors ? `${COLORS.green}+${COLORS.reset}` : '+'
-      const row = `| ${delta.padEnd(colWidths[0])} | ${cells.join(' | ')} |`
-      lines.push(useColors ? colorizeRow(row, 'green') : row)
-    
-    break;
-    }
-
-    case 'modified': {
-      // Two rows: - (before) and + (after)
-      const beforeCells = columns.map((col, i) => String(change.before![col] || '').padEnd(colWidths[i + 1]))
-      const afterCells = columns.map((col, i) => String(change.after![col] || '').padEnd(colWidths[i + 1]))
-
-      const deltaMinus = useColors ? `${COLORS.red}-${COLORS.reset}` : '-'
-      const deltaPlus = useColors ? `${COLORS.green}+${COLORS.reset}` : '+'
-
-      const beforeRow = `| ${deltaMinus.padEnd(colWidths[0])} | ${beforeCells.join(' | ')} |`
-      const afterRow = `| ${deltaPlus.padEnd(colWidths[0])} | ${afterCells.join(' | ')} |`
-
-      lines.push(
-        useColors ? colorizeRow(beforeRow, 'red') : beforeRow,
-        useColors ? colorizeRow(afterRow, 'green') : afterRow
-      )
-    
-    break;
+  for (const [r, cells] of cellRows.entries()) {
+    const {color} = tableRows[r]
+    const padded = cells.map((cell, i) => cell.padEnd(colWidths[i]))
+    if (useColors) {
+      padded[0] = `${COLORS[color]}${cells[0]}${COLORS.reset}${' '.repeat(colWidths[0] - cells[0].length)}`
     }
 
-    case 'removed': {
-      // Single row with -
-      const cells = columns.map((col, i) => String(change.before![col] || '').padEnd(colWidths[i + 1]))
-      const delta = useColors ? `${COLORS.red}-${COLORS.reset}` : '-'
-      const row = `| ${delta.padEnd(colWidths[0])} | ${cells.join(' | ')} |`
-      lines.push(useColors ? colorizeRow(row, 'red') : row)
-    
-    break;
-    }
-    // No default
-    }
+    const row = `| ${padded.join(' | ')} |`
+    lines.push(useColors ? colorizeRow(row, color) : row)
   }
 
   return lines.join('\n')
@@ -309,3 +755,66 @@ function colorizeRow(row: string, color: 'green' | 'red'): string {
 export function formatDiffAsJson(diff: TqlDiff): string {
   return JSON.stringify(diff, null, 2)
 }
+
+/**
+ * Format diff as a stat summary: one line per changed facet plus a totals line
+ * (like `git diff --stat`)
+ */
+export function formatDiffAsStat(diff: TqlDiff, useColors = false): string {
+  const changedFacets = diff.facets.filter((f) => f.status !== 'unchanged')
+
+  if (changedFacets.length === 0 && !diff.schema) {
+    return 'No changes detected.'
+  }
+
+  const nameWidth = Math.max(...changedFacets.map((f) => f.facetName.length + 1), 'table'.length + 1)
+  const totals = {added: 0, modified: 0, moved: 0, removed: 0}
+  const lines: string[] = []
+
+  // Column changes of @table
+  const {schema} = diff
+  if (schema && schema.added.length + schema.removed.length + schema.renamed.length > 0) {
+    const columnParts = [
+      ...schema.added.map((column) => colorize(`+${column}`, 'green', useColors)),
+      ...schema.renamed.map(({from, to}) => colorize(`${from} → ${to}`, 'yellow', useColors)),
+      ...schema.removed.map((column) => colorize(`-${column}`, 'red', useColors)),
+    ]
+    lines.push(` @${'table'.padEnd(nameWidth - 1)} | columns | ${columnParts.join(', ')}`)
+  }
+
+  for (const facet of changedFacets) {
+    const counts = {added: 0, modified: 0, moved: 0, removed: 0}
+    for (const change of facet.changes) {
+      if (change.type !== 'unchanged') counts[change.type]++
+    }
+
+    totals.added += counts.added
+    totals.modified += counts.modified
+    totals.moved += counts.moved
+    totals.removed += counts.removed
+
+    const parts = [
+      counts.added > 0 ? colorize(`+${counts.added} added`, 'green', useColors) : '',
+      counts.modified > 0 ? colorize(`~${counts.modified} modified`, 'yellow', useColors) : '',
+      counts.moved > 0 ? colorize(`>${counts.moved} moved`, 'yellow', useColors) : '',
+      counts.removed > 0 ? colorize(`-${counts.removed} removed`, 'red', useColors) : '',
+    ].filter(Boolean)
+
+    const rowCounts = ` @${facet.facetName.padEnd(nameWidth - 1)} | ${facet.rowsBefore} → ${facet.rowsAfter} rows`
+    lines.push(parts.length > 0 ? `${rowCounts} | ${parts.join(', ')}` : rowCounts)
+  }
+
+  const facetWord = changedFacets.length === 1 ? 'facet' : 'facets'
+  const changeCount = totals.added + totals.modified + totals.moved + totals.removed
+  const moved = totals.moved > 0 ? `, ${totals.moved} moved` : ''
+  lines.push(
+    ` ${changedFacets.length} ${facetWord} changed, ${changeCount} row changes ` +
+      `(${totals.added} added, ${totals.modified} modified${moved}, ${totals.removed} removed)`,
+  )
+
+  return lines.join('\n')
+}
+
+function colorize(text: string, color: 'green' | 'red' | 'yellow', useColors: boolean): string {
+  return useColors ? `${COLORS[color]}${text}${COLORS.reset}` : text
+}
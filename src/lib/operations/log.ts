@@ -0,0 +1,122 @@
+import type {FacetDiff, TqlConversation, TqlDiff, TqlDocument} from '../parser/types.js'
+
+import {parseSequenceKey} from '../parser/types.js'
+import {countRowChanges} from './diff.js'
+
+/**
+ * One step of a conversation's history: a document and the diff that produced it
+ */
+export interface LogEntry {
+  // Sequence key of the diff leading to this document (absent for the first document)
+  diff?: string
+  document: number
+  // Facets changed by the diff (for the first document: the facets it starts with rows in)
+  facets: string[]
+  // Latest @query row of the document, if any
+  query?: {timestamp: string; userMessage: string}
+  rowsAdded: number
+  rowsModified: number
+  rowsMoved: number
+  rowsRemoved: number
+}
+
+export interface LogOptions {
+  // Only include steps that changed this facet, and count only its rows
+  facet?: string
+}
+
+/**
+ * Walk a conversation's sequence and describe each document step
+ */
+export function getConversationLog(conversation: TqlConversation, options: LogOptions = {}): LogEntry[] {
+  const entries: LogEntry[] = []
+  let pendingDiff: undefined | {diff: TqlDiff; key: string}
+
+  for (const item of conversation.sequence) {
+    const key = Object.keys(item)[0]
+    const parsed = parseSequenceKey(key)
+    if (!parsed) continue
+
+    if (parsed.kind === 'diff') {
+      pendingDiff = {diff: (item as Record<string, TqlDiff>)[key], key}
+      continue
+    }
+
+    const doc = (item as Record<string, TqlDocument>)[key]
+    const entry = pendingDiff
+      ? diffEntry(parsed.index, pendingDiff.key, pendingDiff.diff, options.facet)
+      : initialEntry(parsed.index, doc, options.facet)
+    pendingDiff = undefined
+
+    if (options.facet && !entry.facets.includes(options.facet)) continue
+
+    const queryRows = doc.query?.rows ?? []
+    const lastQuery = queryRows.at(-1)
+    if (lastQuery) {
+      entry.query = {timestamp: lastQuery.timestamp_utc ?? '', userMessage: lastQuery.user_message ?? ''}
+    }
+
+    entries.push(entry)
+  }
+
+  return entries
+}
+
+/**
+ * Format log entries for the terminal, newest first (like `git log`)
+ */
+export function formatLog(entries: LogEntry[]): string {
+  if (entries.length === 0) {
+    return 'No history entries.'
+  }
+
+  const blocks = [...entries].reverse().map((entry) => {
+    const header = [`#document[+${entry.document}]`, entry.diff, entry.query?.timestamp].filter(Boolean).join('  ')
+    const lines = [
+      header,
+      `  facets: ${entry.facets.length > 0 ? entry.facets.map((f) => `@${f}`).join(', ') : '(none)'}`,
+      `  rows:   +${entry.rowsAdded} ~${entry.rowsModified} -${entry.rowsRemoved}` +
+        (entry.rowsMoved > 0 ? ` >${entry.rowsMoved}` : ''),
+    ]
+    if (entry.query?.userMessage) {
+      lines.push(`  query:  "${entry.query.userMessage}"`)
+    }
+
+    return lines.join('\n')
+  })
+
+  return blocks.join('\n\n')
+}
+
+function diffEntry(document: number, key: string, diff: TqlDiff, facet?: string): LogEntry {
+  const changed = diff.facets.filter((f: FacetDiff) => f.status !== 'unchanged')
+
+  // Without a filter use the diff's own summary; with one, count only that facet's rows
+  const counts = facet ? countRowChanges(changed.filter((f) => f.facetName === facet)) : diff.summary
+
+  return {
+    diff: key,
+    document,
+    facets: changed.map((f) => f.facetName),
+    rowsAdded: counts.totalRowsAdded,
+    rowsModified: counts.totalRowsModified,
+    rowsMoved: counts.totalRowsMoved,
+    rowsRemoved: counts.totalRowsRemoved,
+  }
+}
+
+function initialEntry(document: number, doc: TqlDocument, facet?: string): LogEntry {
+  // The first document adds every row it contains
+  const facets = Object.entries(doc)
+    .filter(([name, data]) => data.rows.length > 0 && (!facet || name === facet))
+    .map(([name]) => name)
+
+  return {
+    document,
+    facets,
+    rowsAdded: facets.reduce((sum, name) => sum + doc[name as keyof TqlDocument].rows.length, 0),
+    rowsModified: 0,
+    rowsMoved: 0,
+    rowsRemoved: 0,
+  }
+}
@@ -0,0 +1,338 @@
+import type {
+  AmbiguityRow,
+  CustomFacet,
+  CustomFacetRow,
+  FacetDiff,
+  SequenceItem,
+  TqlConversation,
+  TqlDiff,
+  TqlDocument,
+} from '../parser/types.js'
+
+import {getFacetDefinition} from '../parser/registry.js'
+import {FACET_COLUMNS, getDocumentCount, getDocuments, getHeadIndex} from '../parser/types.js'
+import {getDocumentTree} from './branch.js'
+import {applyChangesToConversation, createDiffMetadata} from './crud.js'
+import {diffTqlDocuments} from './diff.js'
+
+// @ambiguity type recorded for each conflict when options.recordConflicts is set
+export const MERGE_CONFLICT_AMBIGUITY_TYPE = 'merge_conflict'
+
+type Row = Record<string, unknown>
+
+// Everything a facet merge needs: the common document, both sides' diffs from it, and the conflicts so far
+interface MergeContext {
+  ancestor: TqlDocument
+  conflicts: MergeConflict[]
+  options: MergeOptions
+  ourDiff: TqlDiff
+  theirDiff: TqlDiff
+  theirDoc: TqlDocument
+}
+
+/**
+ * A row changed differently on both sides of a merge (the merged document keeps ours)
+ */
+export interface MergeConflict {
+  base?: Row
+  facet: string
+  // Fields changed to different values on both sides (empty when one side removed or added the row)
+  fields: string[]
+  // Identity of the row: its key column value (e.g. "column=amount_usd") or index in the common document
+  key: string
+  ours?: Row
+  theirs?: Row
+}
+
+export interface MergeOptions {
+  // Add a `merge_conflict` @ambiguity row per conflict to the merged document (default: false)
+  recordConflicts?: boolean
+  // Primary-key column used to match @table rows (default: match by index)
+  tableKey?: string
+}
+
+export interface MergeResult {
+  // Index of the last #document[+n] shared by base, ours and theirs
+  common: number
+  conflicts: MergeConflict[]
+  conversation: TqlConversation
+}
+
+/**
+ * Three-way merge of two conversations that diverged from a common base
+ *
+ * Finds the last document the three share, diffs it against each side's head document (the
+ * latest document of its current branch) and combines the row changes: rows changed on one side
+ * take that change, rows changed on both sides merge field by field, and rows added on either
+ * side are appended (ours first). Rows edited differently on both sides keep ours and are
+ * returned as conflicts. When only one side has new documents the result is that side (a
+ * fast-forward). Otherwise their documents since the common one are replayed after ours, with
+ * their diffs, and the merged document is appended with a $diff from our head.
+ *
+ * @param base - The common ancestor (e.g. git's %O)
+ * @param ours - Our version (%A)
+ * @param theirs - Their version (%B)
+ * @param options - Merge options
+ */
+export function mergeConversations(
+  base: TqlConversation,
+  ours: TqlConversation,
+  theirs: TqlConversation,
+  options: MergeOptions = {},
+): MergeResult {
+  const baseDocs = getDocuments(base)
+  const ourDocs = getDocuments(ours)
+  const theirDocs = getDocuments(theirs)
+  const diffOptions = {tableKey: options.tableKey}
+
+  const sameDocument = (a: TqlDocument | undefined, b: TqlDocument | undefined) =>
+    a !== undefined && b !== undefined && diffTqlDocuments(a, b, diffOptions).summary.totalFacetsChanged === 0
+
+  let common = -1
+  while (
+    sameDocument(baseDocs[common + 1], ourDocs[common + 1]) &&
+    sameDocument(baseDocs[common + 1], theirDocs[common + 1])
+  ) {
+    common++
+  }
+
+  if (common === -1) {
+    throw new Error('Conversations have no common #document[+n] to merge from')
+  }
+
+  const ourHead = getHeadIndex(ours)
+  const theirHead = getHeadIndex(theirs)
+
+  if (theirHead <= common || sameDocument(ourDocs[ourHead], theirDocs[theirHead])) {
+    return {common, conflicts: [], conversation: ours}
+  }
+
+  if (ourHead <= common) {
+    return {common, conflicts: [], conversation: theirs}
+  }
+
+  const ancestor = baseDocs[common]
+  const ourDiff = diffTqlDocuments(ancestor, ourDocs[ourHead], diffOptions)
+  const theirDiff = diffTqlDocuments(ancestor, theirDocs[theirHead], diffOptions)
+  const conflicts: MergeConflict[] = []
+  const context = {ancestor, conflicts, options, ourDiff, theirDiff, theirDoc: theirDocs[theirHead]}
+  const replayed = replayTheirDocuments(ours, theirs, common)
+
+  const conversation = applyChangesToConversation(
+    replayed.conversation,
+    (doc: TqlDocument) => {
+      for (const facetName of Object.keys(doc)) {
+        // @score is recomputed for the merged document
+        if (facetName === 'score') continue
+
+        // Every facet holds rows of index plus columns, as custom facets do
+        const merged = mergeFacet(facetName, context)
+        if (merged) (doc[facetName] as CustomFacet).rows = merged as CustomFacetRow[]
+      }
+
+      if (options.recordConflicts) {
+        recordConflicts(doc, conflicts)
+      }
+    },
+    ourHead,
+    {...diffOptions, metadata: createDiffMetadata({reason: `Merge #document[+${replayed.head}]`})},
+  )
+
+  return {common, conflicts, conversation}
+}
+
+/**
+ * Append their documents since the common one (the line leading to their head) after ours,
+ * renumbered, each with its $diff from the document it was derived from
+ *
+ * @returns Ours with their documents appended, and the new index of their head
+ */
+function replayTheirDocuments(
+  ours: TqlConversation,
+  theirs: TqlConversation,
+  common: number,
+): {conversation: TqlConversation; head: number} {
+  const tree = getDocumentTree(theirs)
+  const theirDocs = getDocuments(theirs)
+  const line: number[] = []
+  for (let index: number | undefined = getHeadIndex(theirs); index !== undefined && index > common; ) {
+    line.unshift(index)
+    index = tree[index].parent
+  }
+
+  const diffs = new Map(theirs.sequence.map((item) => [Object.keys(item)[0], Object.values(item)[0]]))
+  const renumbered = new Map<number, number>()
+  const sequence: SequenceItem[] = [...ours.sequence]
+
+  for (const index of line) {
+    const parent = tree[index].parent ?? common
+    const from = renumbered.get(parent) ?? parent
+    const to = getDocumentCount(ours) + renumbered.size
+    renumbered.set(index, to)
+
+    sequence.push(
+      {[`$diff[+${from}→+${to}]`]: diffs.get(`$diff[+${parent}→+${index}]`)} as SequenceItem,
+      {[`#document[+${to}]`]: theirDocs[index]} as SequenceItem,
+    )
+  }
+
+  return {conversation: {...ours, sequence}, head: renumbered.get(getHeadIndex(theirs))!}
+}
+
+/**
+ * Merge one facet's changes; returns undefined when ours (already in the new document) stands
+ */
+function mergeFacet(facetName: string, context: MergeContext): Row[] | undefined {
+  const {ancestor, conflicts, options, ourDiff, theirDiff, theirDoc} = context
+  const ourChanges = facetChanges(ourDiff, facetName)
+  const theirChanges = facetChanges(theirDiff, facetName)
+  // A renamed, added or removed @table column changes the facet even when no row did
+  const ourColumns = facetName === 'table' && hasSchemaChanges(ourDiff)
+  const theirColumns = facetName === 'table' && hasSchemaChanges(theirDiff)
+
+  if (theirChanges.length === 0 && !theirColumns) return undefined
+  if (ourChanges.length === 0 && !ourColumns) return theirDoc[facetName].rows as Row[]
+
+  const keyColumn = facetName === 'table' ? options.tableKey : getFacetDefinition(facetName)?.identityKey
+  const identify = (row: Row) => (keyColumn && row[keyColumn] ? `${keyColumn}=${row[keyColumn]}` : String(row.index))
+
+  // Rows are merged cell by cell only when neither side changed the @table columns
+  if (ourColumns || theirColumns) {
+    conflicts.push({facet: 'table', fields: [], key: 'columns'})
+    return undefined
+  }
+
+  const ourEdits = sideEdits(ourChanges)
+  const theirEdits = sideEdits(theirChanges)
+  const rows: Row[] = []
+
+  for (const baseRow of ancestor[facetName].rows as Row[]) {
+    const index = Number(baseRow.index)
+    const ourRow = ourEdits.changed.has(index) ? ourEdits.changed.get(index) : baseRow
+    const theirRow = theirEdits.changed.has(index) ? theirEdits.changed.get(index) : baseRow
+    const merged = mergeRow(baseRow, ourRow, theirRow)
+
+    if (merged.conflict) {
+      conflicts.push({
+        base: baseRow,
+        facet: facetName,
+        fields: merged.conflict,
+        key: identify(baseRow),
+        ours: ourRow,
+        theirs: theirRow,
+      })
+    }
+
+    if (merged.row) rows.push(merged.row)
+  }
+
+  // Rows added on both sides: identical ones are kept once, same-key ones that differ conflict
+  rows.push(...ourEdits.added)
+  for (const added of theirEdits.added) {
+    const match = ourEdits.added.find((row) => sameContent(row, added) || (keyColumn && identify(row) === identify(added)))
+    if (!match) {
+      rows.push(added)
+    } else if (!sameContent(match, added)) {
+      conflicts.push({facet: facetName, fields: [], key: identify(added), ours: match, theirs: added})
+    }
+  }
+
+  return rows.map((row, i) => ({...row, index: i + 1}))
+}
+
+/**
+ * Three-way merge of a row (undefined = removed); `conflict` lists the clashing fields
+ */
+function mergeRow(base: Row, ours?: Row, theirs?: Row): {conflict?: string[]; row?: Row} {
+  if (sameContent(ours, theirs) || sameContent(theirs, base)) return {row: ours}
+  if (sameContent(ours, base)) return {row: theirs}
+
+  // Removed on one side, edited on the other
+  if (!ours || !theirs) return {conflict: [], row: ours}
+
+  const row: Row = {...ours}
+  const conflict: string[] = []
+
+  for (const field of Object.keys({...base, ...ours, ...theirs})) {
+    if (field === 'index') continue
+
+    const [b, o, t] = [base[field], ours[field], theirs[field]].map((value) => String(value ?? ''))
+    if (o === t || t === b) continue
+    if (o === b) {
+      row[field] = theirs[field]
+      continue
+    }
+
+    conflict.push(field)
+  }
+
+  return conflict.length > 0 ? {conflict, row: ours} : {row}
+}
+
+/**
+ * A side's row changes keyed by index in the common document (undefined = removed), plus added rows
+ */
+function sideEdits(changes: FacetDiff['changes']): {added: Row[]; changed: Map<number, Row | undefined>} {
+  const changed = new Map<number, Row | undefined>()
+  const added: Row[] = []
+
+  for (const change of changes) {
+    if (change.type === 'added') {
+      added.push(change.after!)
+    } else if (change.type === 'removed') {
+      changed.set(Number(change.before!.index), undefined)
+    } else if (change.type !== 'unchanged') {
+      changed.set(Number(change.previousIndex ?? change.index), change.after)
+    }
+  }
+
+  return {added, changed}
+}
+
+function facetChanges(diff: TqlDiff, facetName: string): FacetDiff['changes'] {
+  return diff.facets.find((f) => f.facetName === facetName)?.changes ?? []
+}
+
+function hasSchemaChanges(diff: TqlDiff): boolean {
+  const {schema} = diff
+  return Boolean(schema && (schema.added.length > 0 || schema.removed.length > 0 || schema.renamed.length > 0))
+}
+
+/**
+ * Rows with the same fields apart from index (both undefined counts as the same)
+ */
+function sameContent(a?: Row, b?: Row): boolean {
+  if (!a || !b) return a === b
+
+  const fields = Object.keys({...a, ...b}).filter((field) => field !== 'index')
+  return fields.every((field) => String(a[field] ?? '') === String(b[field] ?? ''))
+}
+
+function recordConflicts(doc: TqlDocument, conflicts: MergeConflict[]): void {
+  for (const conflict of conflicts) {
+    const fields = conflict.fields.length > 0 ? conflict.fields : Object.keys({...conflict.ours, ...conflict.theirs})
+    const values: Row = {
+      'ambiguity_risk': 'high',
+      'ambiguity_type': MERGE_CONFLICT_AMBIGUITY_TYPE,
+      description:
+        conflict.ours || conflict.theirs
+          ? `ours: ${describeRow(fields, conflict.ours)}; theirs: ${describeRow(fields, conflict.theirs)}`
+          : 'Changed on both sides; kept ours',
+      index: doc.ambiguity.rows.length + 1,
+      'query_trigger': `@${conflict.facet} ${conflict.key}`,
+    }
+
+    // Keep the facet's column order, which written diffs follow
+    doc.ambiguity.rows.push(
+      Object.fromEntries(FACET_COLUMNS.ambiguity.map((column) => [column, values[column]])) as unknown as AmbiguityRow,
+    )
+  }
+}
+
+function describeRow(fields: string[], row?: Row): string {
+  if (!row) return 'removed'
+  return fields
+    .filter((field) => field !== 'index')
+    .map((field) => `${field}=${String(row[field] ?? '')}`)
+    .join(', ')
+}
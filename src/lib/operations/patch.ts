@@ -0,0 +1,341 @@
+import type {FacetDiff, RowChange, TableSchemaDiff, TqlDiff, TqlDocument} from '../parser/types.js'
+
+/**
+ * One JSON Patch (RFC 6902) operation
+ * Paths point into a document's facets: /meaning/rows/2 is the third @meaning row (array positions are 0-based),
+ * /meaning/rows/2/definition one of its fields, and /meaning/rows/- the end of the facet when adding.
+ */
+export interface JsonPatchOperation {
+  from?: string
+  op: 'add' | 'copy' | 'move' | 'remove' | 'replace' | 'test'
+  path: string
+  value?: unknown
+}
+
+type Row = Record<string, unknown>
+
+interface PatchPath {
+  facet: string
+  field?: string
+  // Array position in the facet's rows ('-' is past the last row)
+  position?: '-' | number
+}
+
+/**
+ * Convert a diff to a JSON Patch that turns the before document into the after document
+ *
+ * Per facet: removed rows are removed, rows are moved and added into their new positions,
+ * then changed fields are replaced. @table column changes come first, applied to every row.
+ */
+export function tqlDiffToJsonPatch(diff: TqlDiff): JsonPatchOperation[] {
+  const patch: JsonPatchOperation[] = []
+  const tableColumns = diff.schema?.columns
+
+  if (diff.schema) {
+    const rowsBefore = diff.facets.find((f) => f.facetName === 'table')?.rowsBefore ?? 0
+    patch.push(...schemaPatch(diff.schema, rowsBefore))
+  }
+
+  for (const facetDiff of diff.facets) {
+    if (facetDiff.changes.length === 0) continue
+
+    patch.push(...facetPatch(facetDiff, facetDiff.facetName === 'table' ? tableColumns : undefined))
+  }
+
+  return patch
+}
+
+/**
+ * Turn a JSON Patch into a changes function for applyChangesToConversation
+ * The patch is checked against doc first. Rows of every facet it touches are renumbered
+ * from their position afterwards, as deleteRowsInMemory does.
+ *
+ * @param doc - Document the patch was written against
+ * @param patch - JSON Patch operations, applied in order
+ * @returns Function that applies the patch to a copy of doc
+ * @throws Error naming the first operation that does not apply to doc
+ */
+export function jsonPatchToChanges(doc: TqlDocument, patch: JsonPatchOperation[]): (doc: TqlDocument) => void {
+  const changes = (target: TqlDocument) => {
+    const touched = new Set<string>()
+
+    for (const [i, operation] of patch.entries()) {
+      try {
+        applyPatchOperation(target, operation, touched)
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error)
+        throw new Error(`Patch operation ${i + 1} (${operation.op} ${operation.path}): ${message}`)
+      }
+    }
+
+    for (const facet of touched) {
+      for (const [i, row] of rowsOf(target, facet).entries()) {
+        row.index = i + 1
+      }
+    }
+  }
+
+  changes(structuredClone(doc))
+  return changes
+}
+
+/**
+ * Renamed, removed and added @table columns, for each of the before rows
+ */
+function schemaPatch(schema: TableSchemaDiff, rowsBefore: number): JsonPatchOperation[] {
+  const patch: JsonPatchOperation[] = []
+
+  for (let position = 0; position < rowsBefore; position++) {
+    const base = `/table/rows/${position}`
+    for (const {from, to} of schema.renamed) {
+      patch.push({from: `${base}/${escapePointer(from)}`, op: 'move', path: `${base}/${escapePointer(to)}`})
+    }
+
+    for (const column of schema.removed) {
+      patch.push({op: 'remove', path: `${base}/${escapePointer(column)}`})
+    }
+
+    for (const column of schema.added) {
+      patch.push({op: 'add', path: `${base}/${escapePointer(column)}`, value: ''})
+    }
+  }
+
+  return patch
+}
+
+/**
+ * Patch for one facet
+ *
+ * @param facetDiff - Row changes of the facet
+ * @param columns - Fields every row already has (the after @table columns, once schemaPatch is applied)
+ */
+function facetPatch(facetDiff: FacetDiff, columns?: string[]): JsonPatchOperation[] {
+  const patch: JsonPatchOperation[] = []
+  const base = `/${facetDiff.facetName}/rows`
+  const added = new Map<number, RowChange>()
+  const changed = new Map<number, RowChange>()
+  const removed: number[] = []
+
+  for (const change of facetDiff.changes) {
+    if (change.type === 'added') added.set(Number(change.index), change)
+    else if (change.type === 'removed') removed.push(Number(change.index))
+    else if (change.type !== 'unchanged') changed.set(Number(change.index), change)
+  }
+
+  // Before index of the row at each position (0 for rows added by the patch)
+  const rows = Array.from({length: facetDiff.rowsBefore}, (_, i) => i + 1)
+
+  for (const index of removed.sort((a, b) => b - a)) {
+    patch.push({op: 'remove', path: `${base}/${rows.indexOf(index)}`})
+    rows.splice(rows.indexOf(index), 1)
+  }
+
+  for (let position = 0; position < facetDiff.rowsAfter; position++) {
+    const addition = added.get(position + 1)
+    if (addition) {
+      patch.push({op: 'add', path: `${base}/${position}`, value: {...addition.after}})
+      rows.splice(position, 0, 0)
+      continue
+    }
+
+    // Rows without a change kept their index
+    const change = changed.get(position + 1)
+    const source = Number(change?.previousIndex ?? change?.index ?? position + 1)
+    const current = rows.indexOf(source)
+    if (current !== position) {
+      patch.push({from: `${base}/${current}`, op: 'move', path: `${base}/${position}`})
+      rows.splice(current, 1)
+      rows.splice(position, 0, source)
+    }
+
+    if (change) {
+      patch.push(...fieldPatch(`${base}/${position}`, change, columns))
+    }
+  }
+
+  return patch
+}
+
+/**
+ * Add, replace and remove the fields of one row that differ between its before and after
+ * The index is left out: jsonPatchToChanges renumbers rows from their position.
+ */
+function fieldPatch(path: string, change: RowChange, columns?: string[]): JsonPatchOperation[] {
+  const before: Row = change.before ?? {}
+  const after: Row = change.after ?? {}
+  const patch: JsonPatchOperation[] = []
+
+  for (const [field, value] of Object.entries(after)) {
+    if (field === 'index' || before[field] === value) continue
+
+    const exists = field in before || Boolean(columns?.includes(field))
+    patch.push({op: exists ? 'replace' : 'add', path: `${path}/${escapePointer(field)}`, value})
+  }
+
+  for (const field of Object.keys(before)) {
+    if (field === 'index' || field in after || (columns && !columns.includes(field))) continue
+
+    patch.push({op: 'remove', path: `${path}/${escapePointer(field)}`})
+  }
+
+  return patch
+}
+
+function applyPatchOperation(doc: TqlDocument, operation: JsonPatchOperation, touched: Set<string>): void {
+  const target = parsePatchPath(doc, operation.path)
+  touched.add(target.facet)
+
+  switch (operation.op) {
+    case 'add':
+    case 'replace': {
+      putValue(doc, target, operation.op, toCellValue(operation.value, target.field === undefined))
+      break
+    }
+
+    case 'copy':
+    case 'move': {
+      if (operation.from === undefined) throw new Error(`${operation.op} needs from`)
+
+      const source = parsePatchPath(doc, operation.from)
+      if ((source.field === undefined) !== (target.field === undefined)) {
+        throw new Error('from and path must both be rows or both be fields')
+      }
+
+      touched.add(source.facet)
+      const value = structuredClone(getValue(doc, source))
+      if (operation.op === 'move') removeValue(doc, source)
+      putValue(doc, target, 'add', value)
+      break
+    }
+
+    case 'remove': {
+      removeValue(doc, target)
+      break
+    }
+
+    case 'test': {
+      const expected = toCellValue(operation.value, target.field === undefined)
+      if (JSON.stringify(normalizeRow(getValue(doc, target))) !== JSON.stringify(normalizeRow(expected))) {
+        throw new Error('test failed')
+      }
+
+      break
+    }
+
+    default: {
+      throw new Error(`Unknown op ${JSON.stringify((operation as {op: unknown}).op)}`)
+    }
+  }
+}
+
+/**
+ * Parse /facet/rows/position[/field]
+ */
+function parsePatchPath(doc: TqlDocument, path: string): PatchPath {
+  const [empty, facet, rows, position, ...rest] = path.split('/').map((token) => unescapePointer(token))
+
+  if (empty !== '' || !facet || rows !== 'rows' || position === undefined || rest.length > 1) {
+    throw new Error(`Unsupported path ${path} (expected /<facet>/rows/<position>[/<field>])`)
+  }
+
+  if (!(facet in doc)) {
+    throw new Error(`Unknown facet @${facet}`)
+  }
+
+  if (position !== '-' && !/^(0|[1-9]\d*)$/.test(position)) {
+    throw new Error(`Invalid row position ${position}`)
+  }
+
+  return {facet, field: rest[0], position: position === '-' ? '-' : Number(position)}
+}
+
+function getValue(doc: TqlDocument, path: PatchPath): unknown {
+  const row = existingRow(doc, path)
+  if (path.field === undefined) return row
+
+  if (!(path.field in row)) throw new Error(`Field ${path.field} not found`)
+  return row[path.field]
+}
+
+function putValue(doc: TqlDocument, path: PatchPath, op: 'add' | 'replace', value: unknown): void {
+  const rows = rowsOf(doc, path.facet)
+
+  if (path.field !== undefined) {
+    const row = existingRow(doc, path)
+    if (op === 'replace' && !(path.field in row)) throw new Error(`Field ${path.field} not found`)
+    row[path.field] = value
+    return
+  }
+
+  if (op === 'replace') {
+    rows[existingPosition(rows, path)] = value as Row
+    return
+  }
+
+  const position = path.position === '-' ? rows.length : path.position!
+  if (position > rows.length) throw new Error(`Row position ${position} is past the end of @${path.facet}`)
+  rows.splice(position, 0, value as Row)
+}
+
+function removeValue(doc: TqlDocument, path: PatchPath): void {
+  if (path.field === undefined) {
+    const rows = rowsOf(doc, path.facet)
+    rows.splice(existingPosition(rows, path), 1)
+    return
+  }
+
+  const row = existingRow(doc, path)
+  if (!(path.field in row)) throw new Error(`Field ${path.field} not found`)
+  delete row[path.field]
+}
+
+function existingRow(doc: TqlDocument, path: PatchPath): Row {
+  const rows = rowsOf(doc, path.facet)
+  return rows[existingPosition(rows, path)]
+}
+
+function existingPosition(rows: Row[], path: PatchPath): number {
+  if (path.position === '-' || path.position! >= rows.length) {
+    throw new Error(`No row at position ${path.position} in @${path.facet}`)
+  }
+
+  return path.position!
+}
+
+function rowsOf(doc: TqlDocument, facet: string): Row[] {
+  return doc[facet].rows as unknown as Row[]
+}
+
+/**
+ * Cells are text: numbers and booleans are stored as strings, rows must be objects of such values
+ */
+function toCellValue(value: unknown, isRow: boolean): unknown {
+  if (!isRow) {
+    if (['boolean', 'number', 'string'].includes(typeof value)) return typeof value === 'string' ? value : String(value)
+    throw new Error('Field value must be a string, number or boolean')
+  }
+
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error('Row value must be an object')
+  }
+
+  return Object.fromEntries(
+    Object.entries(value).map(([field, cell]) => [field, field === 'index' ? cell : toCellValue(cell, false)]),
+  )
+}
+
+// Row indices may be numbers or text depending on where the row came from
+function normalizeRow(value: unknown): unknown {
+  if (typeof value !== 'object' || value === null) return value
+
+  const row = value as Row
+  return 'index' in row ? {...row, index: String(row.index)} : row
+}
+
+function escapePointer(token: string): string {
+  return token.replaceAll('~', '~0').replaceAll('/', '~1')
+}
+
+function unescapePointer(token: string): string {
+  return token.replaceAll('~1', '/').replaceAll('~0', '~')
+}
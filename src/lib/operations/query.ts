@@ -0,0 +1,297 @@
+import type {TqlDocument} from '../parser/types.js'
+
+import {matchesDataType} from '../generators/profile.js'
+import {formatCell} from '../parser/cells.js'
+import {getFacetDefinition} from '../parser/registry.js'
+
+export type QueryOperator = '!=' | '<' | '<=' | '=' | '>' | '>=' | '~'
+
+/**
+ * One comparison of a --where expression, e.g. amount_usd>1000000
+ */
+export interface QueryCondition {
+  column: string
+  operator: QueryOperator
+  value: string
+}
+
+export interface QueryOptions {
+  limit?: number
+  // Columns to keep, in order (default: all)
+  select?: string[]
+  // Columns to sort by, in order; prefix a column with '-' for descending
+  sort?: string[]
+  // e.g. "stablecoin_type=USDT and amount_usd>1000000" ('and' binds tighter than 'or')
+  where?: string
+}
+
+export type QueryFormat = 'csv' | 'json' | 'table'
+
+type Row = Record<string, unknown>
+
+// Longest operators first, so '>=' is not read as '>'
+const OPERATORS: QueryOperator[] = ['!=', '<=', '>=', '<', '=', '>', '~']
+
+/**
+ * Parse a --where expression into alternatives ('or') of conditions that must all hold ('and')
+ * Values may be quoted ("New York", 'a and b'); ~ matches values containing the text, ignoring case.
+ */
+export function parseWhere(expression: string): QueryCondition[][] {
+  const alternatives: QueryCondition[][] = [[]]
+  const tokens = tokenizeWhere(expression)
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i]
+    if (/^(and|or)$/i.test(token)) {
+      if (i === 0 || i === tokens.length - 1 || /^(and|or)$/i.test(tokens[i - 1])) {
+        throw new Error(`Invalid where expression "${expression}": misplaced ${token.toLowerCase()}`)
+      }
+
+      if (token.toLowerCase() === 'or') alternatives.push([])
+      continue
+    }
+
+    if (i > 0 && !/^(and|or)$/i.test(tokens[i - 1])) {
+      throw new Error(`Invalid where expression "${expression}": expected and/or before ${token}`)
+    }
+
+    alternatives.at(-1)!.push(parseCondition(token))
+  }
+
+  if (alternatives[0].length === 0) {
+    throw new Error('Empty where expression')
+  }
+
+  return alternatives
+}
+
+/**
+ * Filter, sort, limit and project rows
+ * Values compare as numbers when both sides are numbers, otherwise as text.
+ *
+ * @param rows - Rows to query (not modified)
+ * @param options - See QueryOptions
+ * @returns Matching rows, with only the selected columns
+ * @throws Error when a column is not in the rows
+ */
+export function queryRows(rows: Row[], options: QueryOptions = {}): Row[] {
+  const columns = [...new Set(rows.flatMap((row) => Object.keys(row)))]
+  const requireColumn = (column: string) => {
+    if (rows.length > 0 && !columns.includes(column)) {
+      throw new Error(`Unknown column "${column}" (available: ${columns.join(', ')})`)
+    }
+  }
+
+  let result = rows
+  if (options.where) {
+    const alternatives = parseWhere(options.where)
+    for (const condition of alternatives.flat()) requireColumn(condition.column)
+
+    result = result.filter((row) =>
+      alternatives.some((conditions) => conditions.every((condition) => matchesCondition(row, condition))),
+    )
+  }
+
+  if (options.sort && options.sort.length > 0) {
+    const keys = options.sort.map((spec) => ({
+      column: spec.replace(/^[+-]/, ''),
+      direction: spec.startsWith('-') ? -1 : 1,
+    }))
+    for (const {column} of keys) requireColumn(column)
+
+    result = [...result].sort((a, b) => {
+      for (const {column, direction} of keys) {
+        const order = compareValues(formatCell(a[column]), formatCell(b[column]))
+        if (order !== 0) return order * direction
+      }
+
+      return 0
+    })
+  }
+
+  if (options.limit !== undefined) {
+    if (!Number.isInteger(options.limit) || options.limit < 0) {
+      throw new Error(`Invalid limit ${options.limit}`)
+    }
+
+    result = result.slice(0, options.limit)
+  }
+
+  if (options.select && options.select.length > 0) {
+    const {select} = options
+    for (const column of select) requireColumn(column)
+
+    result = result.map((row) => Object.fromEntries(select.map((column) => [column, row[column] ?? ''])))
+  }
+
+  return result
+}
+
+/**
+ * Query the rows of one facet of a document (works for @table and every annotation facet)
+ */
+export function queryFacet(doc: TqlDocument, facet: string, options: QueryOptions = {}): Row[] {
+  const facetData = doc[facet]
+  if (!facetData?.rows) {
+    throw new Error(`Facet @${facet} not found`)
+  }
+
+  return queryRows(facetData.rows as unknown as Row[], options)
+}
+
+/**
+ * Format query results as JSON, CSV or an aligned table
+ *
+ * @param rows - Rows to format
+ * @param format - Output format
+ * @param columns - Column order for csv and table when there are no rows (default: keys of the first row)
+ */
+export function formatRows(rows: Row[], format: QueryFormat, columns?: string[]): string {
+  if (format === 'json') {
+    return JSON.stringify(rows, null, 2)
+  }
+
+  const headers = columns ?? [...new Set(rows.flatMap((row) => Object.keys(row)))]
+  const cells = rows.map((row) => headers.map((column) => formatCell(row[column])))
+
+  if (format === 'csv') {
+    return [headers, ...cells].map((line) => line.map((cell) => csvField(cell)).join(',')).join('\n')
+  }
+
+  const widths = headers.map((header, i) => Math.max(header.length, ...cells.map((line) => line[i].length)))
+  return [
+    headers.map((header, i) => header.padEnd(widths[i])).join('  '),
+    widths.map((width) => '-'.repeat(width)).join('  '),
+    ...cells.map((line) => line.map((cell, i) => cell.padEnd(widths[i])).join('  ')),
+  ]
+    .map((line) => line.trimEnd())
+    .join('\n')
+}
+
+/**
+ * Columns of a facet: @table columns come from its rows, other facets have fixed columns
+ */
+export function facetColumns(doc: TqlDocument, facet: string): string[] {
+  const fixed = getFacetDefinition(facet)?.columns
+  if (fixed && facet !== 'table') return fixed
+
+  const rows = (doc[facet]?.rows ?? []) as unknown as Row[]
+  return [...new Set(rows.flatMap((row) => Object.keys(row)))]
+}
+
+/**
+ * Split an expression into conditions and and/or keywords, keeping quoted values together
+ */
+function tokenizeWhere(expression: string): string[] {
+  const tokens: string[] = []
+  let current = ''
+  let quote: string | undefined
+
+  for (const char of expression) {
+    if (quote) {
+      current += char
+      if (char === quote) quote = undefined
+    } else if (char === '"' || char === "'") {
+      current += char
+      quote = char
+    } else if (/\s/.test(char)) {
+      if (current) tokens.push(current)
+      current = ''
+    } else {
+      current += char
+    }
+  }
+
+  if (quote) {
+    throw new Error(`Invalid where expression "${expression}": unterminated quote`)
+  }
+
+  if (current) tokens.push(current)
+  return mergeSpacedOperators(tokens)
+}
+
+/**
+ * Join "amount > 5" into "amount>5" so conditions may be written with spaces around the operator
+ */
+function mergeSpacedOperators(tokens: string[]): string[] {
+  const merged: string[] = []
+  for (const token of tokens) {
+    const previous = merged.at(-1)
+    const startsWithOperator = OPERATORS.some((operator) => token.startsWith(operator))
+    const endsWithOperator = previous !== undefined && OPERATORS.some((operator) => previous.endsWith(operator))
+
+    if (previous !== undefined && !/^(and|or)$/i.test(previous) && (startsWithOperator || endsWithOperator)) {
+      merged[merged.length - 1] = previous + token
+    } else {
+      merged.push(token)
+    }
+  }
+
+  return merged
+}
+
+function parseCondition(token: string): QueryCondition {
+  // The first operator in the token separates the column from the value
+  let best: undefined | {at: number; operator: QueryOperator}
+  for (const operator of OPERATORS) {
+    const at = token.indexOf(operator)
+    if (at > 0 && (!best || at < best.at || (at === best.at && operator.length > best.operator.length))) {
+      best = {at, operator}
+    }
+  }
+
+  if (!best) {
+    throw new Error(`Invalid condition "${token}" (expected column, operator and value, e.g. amount>100)`)
+  }
+
+  const raw = token.slice(best.at + best.operator.length)
+  const quoted = /^(["']).*\1$/.test(raw)
+  return {column: token.slice(0, best.at), operator: best.operator, value: quoted ? raw.slice(1, -1) : raw}
+}
+
+function matchesCondition(row: Row, condition: QueryCondition): boolean {
+  const value = formatCell(row[condition.column])
+
+  switch (condition.operator) {
+    case '!=': {
+      return compareValues(value, condition.value) !== 0
+    }
+
+    case '<': {
+      return compareValues(value, condition.value) < 0
+    }
+
+    case '<=': {
+      return compareValues(value, condition.value) <= 0
+    }
+
+    case '=': {
+      return compareValues(value, condition.value) === 0
+    }
+
+    case '>': {
+      return compareValues(value, condition.value) > 0
+    }
+
+    case '>=': {
+      return compareValues(value, condition.value) >= 0
+    }
+
+    case '~': {
+      return value.toLowerCase().includes(condition.value.toLowerCase())
+    }
+  }
+}
+
+function compareValues(a: string, b: string): number {
+  if (matchesDataType(a, 'decimal') && matchesDataType(b, 'decimal')) {
+    return Number(a) - Number(b)
+  }
+
+  if (a === b) return 0
+  return a < b ? -1 : 1
+}
+
+function csvField(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replaceAll('"', '""')}"` : value
+}
@@ -0,0 +1,159 @@
+import type {AmbiguityRow, MeaningRow, StructureRow, TqlConversation, TqlDocument} from '../parser/types.js'
+import type {CsvData} from '../readers/csv.js'
+import type {StructureViolation} from './check.js'
+
+import {generateTqlDocument} from '../generators/index.js'
+import {FACET_COLUMNS, getLastDocument} from '../parser/types.js'
+import {checkStructureRules, STRUCTURE_VIOLATION_TYPE, violationAmbiguities} from './check.js'
+import {applyChangesToConversation} from './crud.js'
+import {diffTqlDocuments} from './diff.js'
+
+// @ambiguity types written by a refresh; rows of these types are replaced on every refresh
+export const REFRESH_AMBIGUITY_TYPES = {
+  droppedColumn: 'dropped_column',
+  structureViolation: STRUCTURE_VIOLATION_TYPE,
+} as const
+
+export interface RefreshOptions {
+  // Infer @structure rules for new columns from the data (default: true)
+  inferStructure?: boolean
+  // Primary-key column used to match @table rows in the diff (default: match by index)
+  tableKey?: string
+}
+
+export interface RefreshReport {
+  // Columns in the new data that had no annotations
+  addedColumns: string[]
+  // Annotated columns missing from the new data (their rows are kept and flagged in @ambiguity)
+  droppedColumns: string[]
+  // Columns detected as renamed; their annotations move to the new name
+  renamedColumns: {from: string; to: string}[]
+  // Cells of the new data that break carried-over @structure rules
+  violations: StructureViolation[]
+}
+
+export interface RefreshResult {
+  conversation: TqlConversation
+  report: RefreshReport
+}
+
+/**
+ * Append a document with refreshed @table data, keeping the annotations of the latest document
+ *
+ * - @meaning and @structure rows carry forward for columns that still exist (following
+ *   renames detected from the data), in the new column order
+ * - new columns get blank @meaning rows and @structure rows (inferred unless inferStructure is false)
+ * - rows for dropped columns are kept after the others and flagged with a `dropped_column` @ambiguity row
+ * - carried-over @structure rules are checked against the new data, and each broken rule is
+ *   recorded as a `structure_violation` @ambiguity row for its column
+ * - @context, @intent, @query and @tasks carry forward unchanged
+ *
+ * @param conversation - Conversation whose latest document is refreshed
+ * @param data - The new dataset
+ * @param options - Refresh options
+ * @returns Updated conversation and a report of what changed
+ */
+export function refreshConversation(
+  conversation: TqlConversation,
+  data: CsvData,
+  options: RefreshOptions = {},
+): RefreshResult {
+  const source = getLastDocument(conversation)
+  if (!source) {
+    throw new Error('Conversation has no documents to refresh')
+  }
+
+  const fresh = generateTqlDocument({
+    facet: {name: '@table'},
+    inferStructure: options.inferStructure ?? true,
+    source: {data: {headers: data.headers, rows: data.rows}, format: 'csv'},
+  })
+
+  // Renames are detected the same way `tql diff --key` detects them
+  const {schema} = diffTqlDocuments(source, {...source, table: fresh.table}, {tableKey: options.tableKey})
+  const renamedColumns = schema?.renamed ?? []
+  const renames = new Map(renamedColumns.map(({from, to}) => [from, to]))
+  const rename = <T extends {column: string}>(row: T): T => ({...row, column: renames.get(row.column) ?? row.column})
+
+  const headers = new Set(data.headers)
+  const meaning = source.meaning.rows.map((row) => rename(row))
+  const structure = source.structure.rows.map((row) => rename(row))
+  const tableColumns = Object.keys(source.table.rows[0] ?? {}).filter((column) => column !== 'index')
+  const previousColumns = new Set([
+    ...meaning.map((row) => row.column),
+    ...structure.map((row) => row.column),
+    ...tableColumns.map((column) => renames.get(column) ?? column),
+  ])
+
+  const addedColumns = data.headers.filter((column) => !previousColumns.has(column))
+  const droppedColumns = [...new Set([...meaning, ...structure].map((row) => row.column))].filter(
+    (column) => !headers.has(column),
+  )
+
+  const carriedStructure = structure.filter((row) => headers.has(row.column))
+  const violations = checkStructureRules(carriedStructure, fresh.table.rows)
+
+  const updated = applyChangesToConversation(
+    conversation,
+    (doc: TqlDocument) => {
+      doc.table.rows = fresh.table.rows
+      doc.meaning.rows = carryForward(data.headers, meaning, fresh.meaning.rows)
+      doc.structure.rows = carryForward(data.headers, structure, fresh.structure.rows)
+      doc.ambiguity.rows = refreshAmbiguities(doc.ambiguity.rows, droppedColumns, violations)
+    },
+    undefined,
+    {tableKey: options.tableKey},
+  )
+
+  return {
+    conversation: updated,
+    report: {addedColumns, droppedColumns, renamedColumns, violations},
+  }
+}
+
+/**
+ * One row per header (existing row if any, else the fresh one), then the rows of dropped columns
+ */
+function carryForward<T extends MeaningRow | StructureRow>(headers: string[], existing: T[], fresh: T[]): T[] {
+  const rows = headers.map(
+    (header) => existing.find((row) => row.column === header) ?? fresh.find((row) => row.column === header)!,
+  )
+  const dropped = existing.filter((row) => !headers.includes(row.column))
+
+  return [...rows, ...dropped].map((row, i) => ({...row, index: i + 1}))
+}
+
+/**
+ * Replace the flags of the previous refresh with flags for this one
+ */
+function refreshAmbiguities(
+  rows: AmbiguityRow[],
+  droppedColumns: string[],
+  violations: StructureViolation[],
+): AmbiguityRow[] {
+  const refreshTypes = new Set<string>(Object.values(REFRESH_AMBIGUITY_TYPES))
+  const kept = rows.filter((row) => !refreshTypes.has(row.ambiguity_type))
+
+  const dropped = droppedColumns.map((column) =>
+    flag(
+      column,
+      REFRESH_AMBIGUITY_TYPES.droppedColumn,
+      'medium',
+      'Column is no longer in @table; its @meaning/@structure rows are kept for reference',
+    ),
+  )
+
+  const broken = violationAmbiguities(violations)
+
+  // Keep the facet's column order, which written diffs follow
+  return [...kept, ...dropped, ...broken].map(
+    (row, i) =>
+      Object.fromEntries(
+        FACET_COLUMNS.ambiguity.map((column) => [column, column === 'index' ? i + 1 : row[column]]),
+      ) as unknown as AmbiguityRow,
+  )
+}
+
+function flag(column: string, type: string, risk: string, description: string): Omit<AmbiguityRow, 'index'> {
+  return {'ambiguity_risk': risk, 'ambiguity_type': type, description, 'query_trigger': column}
+}
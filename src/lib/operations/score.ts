@@ -0,0 +1,136 @@
+import type {AmbiguityRow, IntentRow, ScoreRow, TqlDocument} from '../parser/types.js'
+
+// Standard @score measures (seeded by generateScoreFacet)
+export const SCORE_MEASURES = {
+  missingCertaintyRatio: 'Missing Certainty Ratio',
+  numberOfInterpretations: 'number-of-interpretations',
+  rangeValues: 'range-values',
+  uncertaintyRatio: 'Uncertainty Ratio (UR)',
+} as const
+
+// Weight of an unresolved ambiguity by its risk level (unknown risk text counts as medium)
+const RISK_WEIGHTS: Record<string, number> = {
+  high: 3,
+  low: 1,
+  medium: 2,
+}
+
+// Interpretations assumed for an ambiguity whose clarifying question lists no options
+const DEFAULT_OPTION_COUNT = 2
+
+export interface ScoreResult {
+  missingCertaintyRatio: number
+  numberOfInterpretations: number
+  rangeValues: string
+  uncertaintyRatio: number
+}
+
+/**
+ * Check whether an @intent row has been confirmed by the user
+ */
+export function isIntentConfirmed(row: IntentRow): boolean {
+  const value = String(row.user_confirmed ?? '').trim().toLowerCase()
+  return value === 'yes' || value === 'true'
+}
+
+/**
+ * Compute @score measures from the current state of a document
+ *
+ * - number-of-interpretations: product of the option counts of every unresolved
+ *   ambiguity row (an ambiguity is resolved once an @intent row with the same
+ *   query_trigger has user_confirmed yes/true)
+ * - range-values: the span of possible interpretations, "1-N" (or "1" when resolved)
+ * - Uncertainty Ratio (UR): open uncertainty / total uncertainty, where unresolved
+ *   ambiguities weigh by risk (low 1, medium 2, high 3) and every @meaning row
+ *   without a definition or @structure row without a dataType weighs 1
+ * - Missing Certainty Ratio: share of the open uncertainty removed by answering
+ *   the single most valuable clarifying question
+ */
+export function computeScores(doc: TqlDocument): ScoreResult {
+  const unresolved = doc.ambiguity.rows.filter((row) => !isAmbiguityResolved(row, doc.intent.rows))
+
+  const numberOfInterpretations = unresolved.reduce(
+    (product, row) => product * countOptions(row, doc.intent.rows),
+    1,
+  )
+
+  const totalAmbiguityWeight = doc.ambiguity.rows.reduce((sum, row) => sum + riskWeight(row), 0)
+  const openAmbiguityWeight = unresolved.reduce((sum, row) => sum + riskWeight(row), 0)
+  const openMeaning = doc.meaning.rows.filter((row) => isBlank(row.definition)).length
+  const openStructure = doc.structure.rows.filter((row) => isBlank(row.dataType)).length
+
+  const total = totalAmbiguityWeight + doc.meaning.rows.length + doc.structure.rows.length
+  const open = openAmbiguityWeight + openMeaning + openStructure
+
+  const mostValuable = Math.max(0, ...unresolved.map((row) => riskWeight(row)))
+
+  return {
+    missingCertaintyRatio: open === 0 ? 0 : mostValuable / open,
+    numberOfInterpretations,
+    rangeValues: numberOfInterpretations === 1 ? '1' : `1-${numberOfInterpretations}`,
+    uncertaintyRatio: total === 0 ? 0 : open / total,
+  }
+}
+
+/**
+ * Recompute the standard @score measures of a document (in-memory)
+ * Only rows whose measure is one of the standard measures are updated;
+ * custom measures and removed rows are left as they are.
+ */
+export function applyScores(doc: TqlDocument): void {
+  const scores = computeScores(doc)
+  const values: Record<string, string> = {
+    [SCORE_MEASURES.missingCertaintyRatio]: scores.missingCertaintyRatio.toFixed(2),
+    [SCORE_MEASURES.numberOfInterpretations]: String(scores.numberOfInterpretations),
+    [SCORE_MEASURES.rangeValues]: scores.rangeValues,
+    [SCORE_MEASURES.uncertaintyRatio]: scores.uncertaintyRatio.toFixed(2),
+  }
+
+  for (const row of doc.score.rows as ScoreRow[]) {
+    const value = values[row.measure]
+    if (value !== undefined) {
+      row.value = value
+    }
+  }
+}
+
+function isAmbiguityResolved(ambiguity: AmbiguityRow, intents: IntentRow[]): boolean {
+  return findIntents(ambiguity, intents).some((intent) => isIntentConfirmed(intent))
+}
+
+/**
+ * Number of interpretations an ambiguity allows, taken from the options of its clarifying question
+ */
+function countOptions(ambiguity: AmbiguityRow, intents: IntentRow[]): number {
+  const counts = findIntents(ambiguity, intents).map((intent) => parseOptions(intent.options).length)
+  return Math.max(DEFAULT_OPTION_COUNT, ...counts)
+}
+
+function findIntents(ambiguity: AmbiguityRow, intents: IntentRow[]): IntentRow[] {
+  const trigger = normalize(ambiguity.query_trigger)
+  return intents.filter((intent) => normalize(intent.query_trigger) === trigger)
+}
+
+/**
+ * Split an options cell such as "[Your timezone (EST), UTC]" into its options
+ */
+function parseOptions(options: string): string[] {
+  return String(options ?? '')
+    .replace(/^\s*\[/, '')
+    .replace(/\]\s*$/, '')
+    .split(',')
+    .map((option) => option.trim())
+    .filter(Boolean)
+}
+
+function riskWeight(row: AmbiguityRow): number {
+  return RISK_WEIGHTS[normalize(row.ambiguity_risk)] ?? RISK_WEIGHTS.medium
+}
+
+function isBlank(value: unknown): boolean {
+  return String(value ?? '').trim() === ''
+}
+
+function normalize(value: unknown): string {
+  return String(value ?? '').trim().toLowerCase()
+}
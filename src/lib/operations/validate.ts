@@ -0,0 +1,188 @@
+import type {TqlDiagnosticSeverity} from '../parser/errors.js'
+import type {TqlConversation, TqlDocument} from '../parser/types.js'
+
+import {getDocuments, getHeadIndex} from '../parser/types.js'
+import {REFRESH_AMBIGUITY_TYPES} from './refresh.js'
+
+export type ValidationCode = 'missing-meaning' | 'unknown-column' | 'unknown-formula-column' | 'unmatched-query-trigger'
+
+/**
+ * A cross-facet inconsistency in a document
+ */
+export interface ValidationIssue {
+  code: ValidationCode
+  // @table column the issue is about
+  column?: string
+  // Document the issue is in (set by validateConversation)
+  document?: number
+  facet: string
+  // Index of the offending row (absent for @table columns)
+  index?: number
+  message: string
+  severity: TqlDiagnosticSeverity
+}
+
+export interface ValidationResult {
+  issues: ValidationIssue[]
+  // True when there are no errors (warnings are allowed)
+  valid: boolean
+}
+
+export interface ValidateOptions {
+  // Validate every document instead of only the head (earlier documents are history that can't be edited)
+  all?: boolean
+}
+
+// Words of a formula that are not column names
+const FORMULA_KEYWORDS = new Set([
+  'and',
+  'as',
+  'asc',
+  'between',
+  'by',
+  'case',
+  'desc',
+  'distinct',
+  'else',
+  'end',
+  'false',
+  'in',
+  'is',
+  'like',
+  'not',
+  'null',
+  'or',
+  'then',
+  'true',
+  'when',
+  'where',
+])
+
+/**
+ * Check that the facets of a document agree with each other:
+ *
+ * - @meaning and @structure rows describe @table columns (error)
+ * - every @table column has a @meaning row (warning)
+ * - every @intent query_trigger appears in some @query user_message, ignoring case (warning)
+ * - @tasks formulas only reference @table columns or other tasks (error)
+ *
+ * Column checks are skipped while @table has no rows, since its columns are unknown. Rows that
+ * `tql refresh` keeps for dropped columns (flagged `dropped_column` in @ambiguity) are not errors.
+ */
+export function validateDocument(doc: TqlDocument): ValidationResult {
+  const issues: ValidationIssue[] = []
+  const [first] = doc.table.rows
+  const columns = first ? Object.keys(first).filter((column) => column !== 'index') : undefined
+  const dropped = new Set(
+    doc.ambiguity.rows
+      .filter((row) => row.ambiguity_type === REFRESH_AMBIGUITY_TYPES.droppedColumn)
+      .map((row) => String(row.query_trigger ?? '').trim()),
+  )
+
+  if (columns) {
+    for (const facet of ['meaning', 'structure'] as const) {
+      for (const row of doc[facet].rows) {
+        const column = String(row.column ?? '').trim()
+        if (column && !columns.includes(column) && !dropped.has(column)) {
+          issues.push({
+            code: 'unknown-column',
+            column,
+            facet,
+            index: Number(row.index),
+            message: `Column "${column}" is not in @table`,
+            severity: 'error',
+          })
+        }
+      }
+    }
+
+    const described = new Set(doc.meaning.rows.map((row) => String(row.column ?? '').trim()))
+    for (const column of columns.filter((name) => !described.has(name))) {
+      issues.push({
+        code: 'missing-meaning',
+        column,
+        facet: 'table',
+        message: `Column "${column}" has no @meaning row`,
+        severity: 'warning',
+      })
+    }
+
+    issues.push(...checkFormulas(doc, columns))
+  }
+
+  const messages = doc.query.rows.map((row) => String(row.user_message ?? '').toLowerCase())
+  for (const row of doc.intent.rows) {
+    const trigger = String(row.query_trigger ?? '').trim()
+    if (trigger && !messages.some((message) => message.includes(trigger.toLowerCase()))) {
+      issues.push({
+        code: 'unmatched-query-trigger',
+        facet: 'intent',
+        index: Number(row.index),
+        message: `query_trigger "${trigger}" does not appear in any @query user_message`,
+        severity: 'warning',
+      })
+    }
+  }
+
+  return {issues, valid: issues.every((issue) => issue.severity !== 'error')}
+}
+
+/**
+ * Validate the head document of a conversation (or every document with `all`)
+ */
+export function validateConversation(conversation: TqlConversation, options: ValidateOptions = {}): ValidationResult {
+  const documents = getDocuments(conversation)
+  const indices = options.all ? documents.map((_, i) => i) : [getHeadIndex(conversation)]
+
+  const issues = indices.flatMap((document) =>
+    validateDocument(documents[document]).issues.map((issue) => ({...issue, document})),
+  )
+  return {issues, valid: issues.every((issue) => issue.severity !== 'error')}
+}
+
+/**
+ * One line per issue, e.g. "#document[+2] @meaning[3]: error Column "foo" is not in @table [unknown-column]"
+ */
+export function formatValidationIssue(issue: ValidationIssue): string {
+  const document = issue.document === undefined ? '' : `#document[+${issue.document}] `
+  const row = issue.index === undefined ? `@${issue.facet}` : `@${issue.facet}[${issue.index}]`
+  return `${document}${row}: ${issue.severity} ${issue.message} [${issue.code}]`
+}
+
+/**
+ * Report names in @tasks formulas that are neither @table columns nor task names
+ */
+function checkFormulas(doc: TqlDocument, columns: string[]): ValidationIssue[] {
+  const known = new Set([...columns, ...doc.tasks.rows.map((row) => String(row.name ?? '').trim())])
+
+  return doc.tasks.rows.flatMap((row) =>
+    formulaNames(String(row.formula ?? ''))
+      .filter((name) => !known.has(name))
+      .map((name) => ({
+        code: 'unknown-formula-column' as const,
+        column: name,
+        facet: 'tasks',
+        index: Number(row.index),
+        message: `Formula references "${name}", which is not a @table column`,
+        severity: 'error' as const,
+      })),
+  )
+}
+
+/**
+ * Names a formula refers to: identifiers outside quoted text that are not keywords or function calls
+ * e.g. SUM(amount_usd WHERE status='completed') → amount_usd, status
+ */
+function formulaNames(formula: string): string[] {
+  const unquoted = formula.replaceAll(/'(?:[^']|'')*'|"[^"]*"/g, ' ')
+  const names: string[] = []
+
+  for (const match of unquoted.matchAll(/\b[A-Z_a-z]\w*/g)) {
+    const isCall = /^\s*\(/.test(unquoted.slice(match.index + match[0].length))
+    if (!isCall && !FORMULA_KEYWORDS.has(match[0].toLowerCase())) {
+      names.push(match[0])
+    }
+  }
+
+  return [...new Set(names)]
+}
@@ -0,0 +1,88 @@
+import type {TableCell, TqlDocument} from './types.js'
+
+import {matchesDataType, profileColumns} from '../generators/profile.js'
+
+// Datetimes with a UTC offset and at most millisecond precision; others would be read in the
+// host's time zone or lose digits as Dates
+const EXACT_DATETIME_PATTERN = /^[^.]+(\.\d{1,3})?(Z|[+-]\d{2}:?\d{2})$/
+
+/**
+ * Text of a cell as written to a .tql file
+ * null is an empty cell, and Dates are written as ISO-8601 in UTC (milliseconds only when set).
+ */
+export function formatCell(value: unknown): string {
+  if (value === null || value === undefined) return ''
+  if (value instanceof Date) return value.toISOString().replace('.000Z', 'Z')
+  return String(value)
+}
+
+/**
+ * Whether two cells hold the same value, whether typed or read as text (10 and '10' are equal)
+ */
+export function cellsEqual(a: unknown, b: unknown): boolean {
+  return formatCell(a) === formatCell(b)
+}
+
+/**
+ * Convert the text of a cell to a value of a @structure dataType
+ * Empty cells become null; integer and decimal cells numbers; boolean cells true/false; datetime
+ * cells with a UTC offset Dates. Other types (and cells that don't match their type, or datetimes
+ * without an offset or finer than milliseconds) keep their text, so that formatCell reproduces
+ * every typed value exactly.
+ */
+export function coerceCell(text: string, dataType: string): TableCell {
+  const value = text.trim()
+  if (value === '') return null
+  if (!matchesDataType(value, dataType)) return text
+
+  switch (dataType.trim().toLowerCase()) {
+    case 'boolean': {
+      return value.toLowerCase() === 'true'
+    }
+
+    case 'datetime': {
+      return EXACT_DATETIME_PATTERN.test(value) ? new Date(value) : text
+    }
+
+    case 'decimal':
+    case 'integer': {
+      // Integers beyond 2^53 would not read back as the same number
+      return /^[-+]?\d+$/.test(value) && !Number.isSafeInteger(Number(value)) ? text : Number(value)
+    }
+
+    default: {
+      return text
+    }
+  }
+}
+
+/**
+ * Coerce the @table cells of a document in place, using the dataType each column has in @structure
+ * (or the one profileColumns infers when @structure leaves it blank). Already typed cells are kept
+ * as the same value, so documents can be typed more than once.
+ *
+ * @returns The same document
+ */
+export function typeTableCells(doc: TqlDocument): TqlDocument {
+  const {rows} = doc.table
+  if (rows.length === 0) return doc
+
+  const columns = Object.keys(rows[0]).filter((column) => column !== 'index')
+  const cells = rows.map((row) => columns.map((column) => formatCell(row[column])))
+  const inferred = profileColumns(columns, cells)
+
+  for (const [i, column] of columns.entries()) {
+    const declared = doc.structure.rows.find((rule) => rule.column === column)?.dataType?.trim()
+    const dataType = declared || inferred[i].dataType
+
+    for (const [j, row] of rows.entries()) {
+      row[column] = coerceCell(cells[j][i], dataType)
+    }
+  }
+
+  for (const row of rows) {
+    row.index = Number(row.index)
+  }
+
+  return doc
+}
@@ -0,0 +1,76 @@
+import type {TqlConversation} from './types.js'
+
+export type TqlDiagnosticCode =
+  | 'cell-count'
+  | 'conversation-count'
+  | 'duplicate-facet'
+  | 'facet-count'
+  | 'missing-document'
+  | 'row-before-separator'
+  | 'unknown-branch'
+  | 'unknown-change'
+  | 'unknown-encoding'
+  | 'unknown-facet'
+  | 'unknown-header'
+
+export type TqlDiagnosticSeverity = 'error' | 'warning'
+
+/**
+ * A problem found while parsing a .tql file (line and column are 1-based)
+ */
+export interface TqlDiagnostic {
+  code: TqlDiagnosticCode
+  column: number
+  file?: string
+  line: number
+  message: string
+  severity: TqlDiagnosticSeverity
+}
+
+export interface TqlParseOptions {
+  // File name reported in diagnostics and errors
+  file?: string
+  // Never throw: collect every problem (including document count mismatches) as diagnostics
+  lenient?: boolean
+  // Throw on any problem: count mismatches, duplicate facets, unknown headers, wrong cell counts, rows before a separator
+  strict?: boolean
+  // Coerce @table cells to numbers, booleans, Dates and nulls by their @structure dataType (see typeTableCells)
+  typed?: boolean
+}
+
+export interface TqlParseResult {
+  conversation: TqlConversation
+  diagnostics: TqlDiagnostic[]
+}
+
+/**
+ * Error thrown when a .tql file cannot be parsed, with the position of the problem
+ */
+export class TqlParseError extends Error {
+  code: TqlDiagnosticCode
+  column: number
+  diagnostic: TqlDiagnostic
+  file?: string
+  line: number
+
+  constructor(diagnostic: TqlDiagnostic) {
+    super(`${formatLocation(diagnostic)}: ${diagnostic.message}`)
+    this.name = 'TqlParseError'
+    this.code = diagnostic.code
+    this.column = diagnostic.column
+    this.diagnostic = diagnostic
+    this.file = diagnostic.file
+    this.line = diagnostic.line
+  }
+}
+
+/**
+ * Format a diagnostic as "file:line:column: severity message [code]"
+ */
+export function formatDiagnostic(diagnostic: TqlDiagnostic): string {
+  return `${formatLocation(diagnostic)}: ${diagnostic.severity} ${diagnostic.message} [${diagnostic.code}]`
+}
+
+function formatLocation(diagnostic: TqlDiagnostic): string {
+  return `${diagnostic.file ?? '<input>'}:${diagnostic.line}:${diagnostic.column}`
+}
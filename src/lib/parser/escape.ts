@@ -0,0 +1,114 @@
+// Escaping scheme for cells in .tql markdown tables
+//
+// Cells are written with backslash escapes so that any text survives a round trip:
+//   \\  backslash            \|  pipe
+//   \n  line feed            \r  carriage return
+//   \t  tab                  \s  space (only used for leading/trailing spaces)
+//   \u{XXXX}  any other leading/trailing whitespace character
+//
+// Leading and trailing whitespace is escaped because table cells are padded and
+// trimmed; interior spaces are written as-is. Unknown escapes (e.g. "\d" in a
+// formula written before escaping existed) are read back literally.
+
+import {formatCell} from './cells.js'
+
+const NAMED_ESCAPES: Record<string, string> = {
+  '\t': String.raw`\t`,
+  '\n': String.raw`\n`,
+  '\r': String.raw`\r`,
+  '\\': '\\\\',
+  '|': String.raw`\|`,
+}
+
+const NAMED_UNESCAPES: Record<string, string> = {
+  '\\': '\\',
+  n: '\n',
+  r: '\r',
+  s: ' ',
+  t: '\t',
+  '|': '|',
+}
+
+/**
+ * Escape a cell value for writing into a markdown table row
+ */
+export function escapeCell(value: unknown): string {
+  const text = formatCell(value)
+  const chars = [...text]
+
+  // Find the span of characters that are not leading/trailing whitespace
+  let start = 0
+  while (start < chars.length && /\s/u.test(chars[start])) start++
+  let end = chars.length
+  while (end > start && /\s/u.test(chars[end - 1])) end--
+
+  return chars
+    .map((char, i) => {
+      if (NAMED_ESCAPES[char]) return NAMED_ESCAPES[char]
+      if (i >= start && i < end) return char
+      if (char === ' ') return String.raw`\s`
+      return `\\u{${char.codePointAt(0)!.toString(16).toUpperCase()}}`
+    })
+    .join('')
+}
+
+/**
+ * Reverse escapeCell on a trimmed raw cell
+ */
+export function unescapeCell(raw: string): string {
+  let result = ''
+
+  for (let i = 0; i < raw.length; i++) {
+    const char = raw[i]
+    if (char !== '\\' || i === raw.length - 1) {
+      result += char
+      continue
+    }
+
+    const next = raw[i + 1]
+    if (NAMED_UNESCAPES[next] !== undefined) {
+      result += NAMED_UNESCAPES[next]
+      i++
+      continue
+    }
+
+    const codePoint = raw.slice(i).match(/^\\u\{([\dA-Fa-f]{1,6})\}/)
+    if (codePoint) {
+      result += String.fromCodePoint(Number.parseInt(codePoint[1], 16))
+      i += codePoint[0].length - 1
+      continue
+    }
+
+    // Unknown escape: keep the backslash literally
+    result += char
+  }
+
+  return result
+}
+
+/**
+ * Split a markdown table row into unescaped cell values
+ * Pipes preceded by a backslash are part of the cell, not separators.
+ */
+export function splitTableRow(line: string): string[] {
+  const segments: string[] = []
+  let current = ''
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    if (char === '\\' && i < line.length - 1) {
+      current += char + line[i + 1]
+      i++
+    } else if (char === '|') {
+      segments.push(current)
+      current = ''
+    } else {
+      current += char
+    }
+  }
+
+  segments.push(current)
+
+  // Drop the text outside the leading and trailing pipes
+  return segments.slice(1, -1).map((cell) => unescapeCell(cell.trim()))
+}
@@ -1,23 +1,40 @@
 import * as fs from 'node:fs'
 
-import {formatDiffAsMarkdown} from '../operations/diff.js'
-import type {TqlConversation, TqlDocument} from './types.js'
-import {getDocumentCount} from './types.js'
+import type {TqlConversation, TqlDiff, TqlDocument, TqlEncoding} from './types.js'
+
+import {diffTqlDocuments, formatDiffAsMarkdown} from '../operations/diff.js'
+import {escapeCell} from './escape.js'
+import {BUILTIN_FACETS, getFacetDefinition, getFacetNames} from './registry.js'
+import {getDocumentCount, parseSequenceKey} from './types.js'
+
+export interface TqlWriteOptions {
+  // Storage encoding (default: the conversation's own encoding, else full)
+  encoding?: TqlEncoding
+}
 
 /**
  * Generate a .tql file from a TqlConversation JSON structure
  */
-export function generateTqlFromConversation(conversation: TqlConversation): string {
+export function generateTqlFromConversation(conversation: TqlConversation, options: TqlWriteOptions = {}): string {
   const sections: string[] = []
+  const encoding = options.encoding ?? conversation.encoding ?? 'full'
+  const compactDiffs = encoding === 'compact' ? computeCompactDiffs(conversation) : new Map<string, TqlDiff>()
 
   // Add conversation header with document count
   const docCount = getDocumentCount(conversation)
-  sections.push(`#conversation[${docCount}]:`)
+  sections.push([`#conversation[${docCount}]:`, ...headerFields(conversation, encoding)].join(' '))
   sections.push('') // Empty line after conversation header
 
+  // Compact encoding leaves out every document that its preceding diff reproduces
+  const items = conversation.sequence.filter((item, i) => {
+    const parsed = parseSequenceKey(Object.keys(item)[0])
+    const previousKey = i > 0 ? Object.keys(conversation.sequence[i - 1])[0] : undefined
+    return !(parsed?.kind === 'document' && previousKey && compactDiffs.has(previousKey))
+  })
+
   // Iterate through sequence and output each item
-  for (let i = 0; i < conversation.sequence.length; i++) {
-    const item = conversation.sequence[i]
+  for (let i = 0; i < items.length; i++) {
+    const item = items[i]
     const key = Object.keys(item)[0]
     const value = Object.values(item)[0]
 
@@ -28,11 +45,11 @@ export function generateTqlFromConversation(conversation: TqlConversation): stri
     } else if (key.startsWith('$diff')) {
       // Output diff
       sections.push(`${key}:`)
-      sections.push(formatDiffAsMarkdown(value as any, false)) // No colors in file
+      sections.push(formatDiffAsMarkdown(compactDiffs.get(key) ?? (value as TqlDiff), false, true)) // No colors in file, all facets
     }
 
     // Add empty line between items (except after last)
-    if (i < conversation.sequence.length - 1) {
+    if (i < items.length - 1) {
       sections.push('')
     }
   }
@@ -40,6 +57,22 @@ export function generateTqlFromConversation(conversation: TqlConversation): stri
   return sections.join('\n')
 }
 
+/**
+ * key=value fields of the #conversation header: encoding=compact, branches=main:3,utc:4, current=utc
+ */
+function headerFields(conversation: TqlConversation, encoding: TqlEncoding): string[] {
+  const fields: string[] = []
+  if (encoding === 'compact') fields.push('encoding=compact')
+
+  if (conversation.branches) {
+    const heads = Object.entries(conversation.branches).map(([name, head]) => `${name}:${head}`)
+    fields.push(`branches=${heads.join(',')}`)
+    if (conversation.currentBranch) fields.push(`current=${conversation.currentBranch}`)
+  }
+
+  return fields
+}
+
 /**
  * Generate facets content for a single TqlDocument
  * (Used internally by generateTqlFromConversation)
@@ -47,16 +80,13 @@ export function generateTqlFromConversation(conversation: TqlConversation): stri
 export function generateTqlFromJson(doc: TqlDocument): string {
   const sections: string[] = []
 
-  // Generate all 9 facets (always, even if empty)
+  // Generate the 9 built-in facets (always, even if empty), then registered facets the document has
   sections.push(generateTableSection(doc))
-  sections.push(generateMeaningSection(doc))
-  sections.push(generateStructureSection(doc))
-  sections.push(generateAmbiguitySection(doc))
-  sections.push(generateIntentSection(doc))
-  sections.push(generateContextSection(doc))
-  sections.push(generateQuerySection(doc))
-  sections.push(generateTasksSection(doc))
-  sections.push(generateScoreSection(doc))
+  for (const name of getFacetNames()) {
+    if (name !== 'table' && ((BUILTIN_FACETS as readonly string[]).includes(name) || doc[name])) {
+      sections.push(generateFacetSection(doc, name))
+    }
+  }
 
   return sections.join('\n\n')
 }
@@ -64,11 +94,48 @@ export function generateTqlFromJson(doc: TqlDocument): string {
 /**
  * Write TQL conversation to file
  */
-export function writeTql(filePath: string, conversation: TqlConversation): void {
-  const content = generateTqlFromConversation(conversation)
+export function writeTql(filePath: string, conversation: TqlConversation, options: TqlWriteOptions = {}): void {
+  const content = generateTqlFromConversation(conversation, options)
   fs.writeFileSync(filePath, content, 'utf8')
 }
 
+/**
+ * Recompute each $diff[+i→+j] that directly precedes #document[+j] from the documents themselves,
+ * so that replaying the written diffs reproduces documents exactly (even ones edited in place).
+ * Diffs that cannot be recomputed are left out and their document is written in full.
+ */
+function computeCompactDiffs(conversation: TqlConversation): Map<string, TqlDiff> {
+  const documents = new Map<number, TqlDocument>()
+  const diffs = new Map<string, TqlDiff>()
+  const {sequence} = conversation
+
+  for (const [i, item] of sequence.entries()) {
+    const key = Object.keys(item)[0]
+    const parsed = parseSequenceKey(key)
+
+    if (parsed?.kind === 'document') {
+      documents.set(parsed.index, Object.values(item)[0] as TqlDocument)
+      continue
+    }
+
+    const next = sequence[i + 1]
+    if (parsed?.kind !== 'diff' || !next || Object.keys(next)[0] !== `#document[+${parsed.to}]`) continue
+
+    const source = documents.get(parsed.from)
+    if (!source) continue
+
+    try {
+      const stored = Object.values(item)[0] as TqlDiff
+      const diff = diffTqlDocuments(source, Object.values(next)[0] as TqlDocument, {tableKey: stored.schema?.key})
+      diffs.set(key, stored.metadata ? {...diff, metadata: stored.metadata} : diff)
+    } catch {
+      // Keep the stored diff and write the document in full
+    }
+  }
+
+  return diffs
+}
+
 // Helper function to generate a table section
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 function generateTable(headers: string[], rows: Record<string, any>[], rowCount: number, facetName: string): string {
@@ -77,17 +144,21 @@ function generateTable(headers: string[], rows: Record<string, any>[], rowCount:
   // Add facet header
   lines.push(`@${facetName}[${rowCount}]:`)
 
+  // Escape cells so pipes, newlines and surrounding whitespace survive parsing
+  const headerCells = headers.map((header) => escapeCell(header))
+  const dataCells = rows.map((row) => headers.map((header) => escapeCell(row[header])))
+
   // Calculate column widths
-  const colWidths: number[] = headers.map((header) => {
+  const colWidths: number[] = headerCells.map((header, i) => {
     const headerWidth = header.length
-    const maxDataWidth = rows.length > 0
-      ? Math.max(...rows.map((row) => String(row[header] || '').length))
+    const maxDataWidth = dataCells.length > 0
+      ? Math.max(...dataCells.map((cells) => cells[i].length))
       : 0
     return Math.max(headerWidth, maxDataWidth)
   })
 
   // Add header row
-  const headerRow = '| ' + headers.map((h, i) => h.padEnd(colWidths[i])).join(' | ') + ' |'
+  const headerRow = '| ' + headerCells.map((h, i) => h.padEnd(colWidths[i])).join(' | ') + ' |'
   lines.push(headerRow)
 
   // Add separator row
@@ -95,8 +166,8 @@ function generateTable(headers: string[], rows: Record<string, any>[], rowCount:
   lines.push(separator)
 
   // Add data rows
-  for (const row of rows) {
-    const dataRow = '| ' + headers.map((h, i) => String(row[h] || '').padEnd(colWidths[i])).join(' | ') + ' |'
+  for (const cells of dataCells) {
+    const dataRow = '| ' + cells.map((cell, i) => cell.padEnd(colWidths[i])).join(' | ') + ' |'
     lines.push(dataRow)
   }
 
@@ -117,42 +188,8 @@ function generateTableSection(doc: TqlDocument): string {
   return generateTable(headers, doc.table.rows, doc.table.rows.length, 'table')
 }
 
-function generateMeaningSection(doc: TqlDocument): string {
-  const headers = ['index', 'column', 'definition']
-  return generateTable(headers, doc.meaning.rows, doc.meaning.rows.length, 'meaning')
-}
-
-function generateStructureSection(doc: TqlDocument): string {
-  const headers = ['index', 'column', 'nullAllowed', 'dataType', 'minValue', 'maxValue', 'format']
-  return generateTable(headers, doc.structure.rows, doc.structure.rows.length, 'structure')
-}
-
-function generateAmbiguitySection(doc: TqlDocument): string {
-  const headers = ['index', 'query_trigger', 'ambiguity_type', 'ambiguity_risk']
-  return generateTable(headers, doc.ambiguity.rows, doc.ambiguity.rows.length, 'ambiguity')
-}
-
-function generateIntentSection(doc: TqlDocument): string {
-  const headers = ['index', 'query_trigger', 'clarifying_question', 'options', 'user_response', 'user_confirmed']
-  return generateTable(headers, doc.intent.rows, doc.intent.rows.length, 'intent')
-}
-
-function generateContextSection(doc: TqlDocument): string {
-  const headers = ['index', 'key', 'value']
-  return generateTable(headers, doc.context.rows, doc.context.rows.length, 'context')
-}
-
-function generateQuerySection(doc: TqlDocument): string {
-  const headers = ['index', 'user_message', 'timestamp_utc']
-  return generateTable(headers, doc.query.rows, doc.query.rows.length, 'query')
-}
-
-function generateTasksSection(doc: TqlDocument): string {
-  const headers = ['index', 'name', 'description', 'formula']
-  return generateTable(headers, doc.tasks.rows, doc.tasks.rows.length, 'tasks')
-}
-
-function generateScoreSection(doc: TqlDocument): string {
-  const headers = ['index', 'measure', 'value']
-  return generateTable(headers, doc.score.rows, doc.score.rows.length, 'score')
+function generateFacetSection(doc: TqlDocument, name: string): string {
+  const headers = getFacetDefinition(name)!.columns
+  const rows = doc[name]?.rows ?? []
+  return generateTable(headers, rows, rows.length, name)
 }
@@ -1,31 +1,62 @@
 import * as fs from 'node:fs'
 
 import type {
-  AmbiguityRow,
-  ContextRow,
-  IntentRow,
-  MeaningRow,
-  QueryRow,
-  ScoreRow,
-  StructureRow,
-  TableRow,
-  TasksRow,
+  ChangeType,
+  DiffActor,
+  DiffMetadata,
+  FacetDiff,
+  RowChange,
+  TableSchemaDiff,
   TqlConversation,
+  TqlDiff,
   TqlDocument,
+  TqlEncoding,
 } from './types.js'
 
+import {applyDiff, countRowChanges} from '../operations/diff.js'
+import {typeTableCells} from './cells.js'
+import {
+  type TqlDiagnostic,
+  type TqlDiagnosticSeverity,
+  TqlParseError,
+  type TqlParseOptions,
+  type TqlParseResult,
+} from './errors.js'
+import {splitTableRow, unescapeCell} from './escape.js'
+import {createEmptyDocument, getFacetDefinition, isFacetName} from './registry.js'
+import {parseSequenceKey} from './types.js'
+
 /**
  * Parse a .tql file into a TqlConversation JSON structure
  */
-export function parseTql(filePath: string): TqlConversation {
+export function parseTql(filePath: string, options: TqlParseOptions = {}): TqlConversation {
+  return parseTqlWithDiagnostics(filePath, options).conversation
+}
+
+/**
+ * Parse a .tql file and return the conversation along with any diagnostics
+ */
+export function parseTqlWithDiagnostics(filePath: string, options: TqlParseOptions = {}): TqlParseResult {
   const content = fs.readFileSync(filePath, 'utf8')
-  return parseTqlConversationFromString(content)
+  return parseTqlConversationWithDiagnostics(content, {file: filePath, ...options})
 }
 
 /**
  * Parse TQL conversation content string into a TqlConversation structure
  */
-export function parseTqlConversationFromString(content: string): TqlConversation {
+export function parseTqlConversationFromString(content: string, options: TqlParseOptions = {}): TqlConversation {
+  return parseTqlConversationWithDiagnostics(content, options).conversation
+}
+
+/**
+ * Parse TQL conversation content string and return the conversation along with any diagnostics
+ *
+ * By default only a #conversation[n] count mismatch throws; other problems are
+ * reported as warnings. With `strict` every problem throws a TqlParseError, and
+ * with `lenient` nothing throws.
+ */
+export function parseTqlConversationWithDiagnostics(content: string, options: TqlParseOptions = {}): TqlParseResult {
+  const context = createParseContext(options)
   const lines = content.split('\n')
 
   // Check for conversation header
@@ -33,45 +64,39 @@ export function parseTqlConversationFromString(content: string): TqlConversation
   if (!conversationMatch) {
     // Legacy format: single document without conversation wrapper
     // Parse as single document and wrap in conversation
-    const doc = parseTqlDocumentFromString(content)
+    const doc = parseDocumentLines(lines, 1, context)
     return {
-      sequence: [{'#document[+0]': doc}],
+      conversation: {sequence: [{'#document[+0]': doc}]},
+      diagnostics: context.diagnostics,
     }
   }
 
   const expectedDocCount = Number.parseInt(conversationMatch[1], 10)
-  const sequence: TqlConversation['sequence'] = []
+  const encoding = parseEncoding(lines[0], context)
+  const storedSequence: TqlConversation['sequence'] = []
 
   // Split content by #document[+n]: or $diff[+i→+j]: headers
-  let currentItemKey: string | null = null
+  let currentItemKey: null | string = null
   let currentItemContent: string[] = []
+  let currentItemLine = 0
+  // Header line of each item, for problems found after the items are read
+  const itemLines = new Map<string, number>()
 
   for (let i = 1; i < lines.length; i++) {
     const line = lines[i]
 
-    // Check for document header: #document[+n]:
-    const docMatch = line.match(/^(#document\[\+\d+\]):/)
-    if (docMatch) {
+    // Check for document header: #document[+n]: or diff header: $diff[+i→+j]:
+    const itemMatch = line.match(/^(#document\[\+\d+\]):/) ?? line.match(/^(\$diff\[\+\d+→\+\d+\]):/)
+    if (itemMatch) {
       // Save previous item if exists
       if (currentItemKey && currentItemContent.length > 0) {
-        addItemToSequence(sequence, currentItemKey, currentItemContent.join('\n'))
+        addItemToSequence(storedSequence, {firstLine: currentItemLine, key: currentItemKey, lines: currentItemContent}, context)
       }
 
-      currentItemKey = docMatch[1]
-      currentItemContent = []
-      continue
-    }
-
-    // Check for diff header: $diff[+i→+j]:
-    const diffMatch = line.match(/^(\$diff\[\+\d+→\+\d+\]):/)
-    if (diffMatch) {
-      // Save previous item if exists
-      if (currentItemKey && currentItemContent.length > 0) {
-        addItemToSequence(sequence, currentItemKey, currentItemContent.join('\n'))
-      }
-
-      currentItemKey = diffMatch[1]
+      currentItemKey = itemMatch[1]
+      itemLines.set(currentItemKey, i + 1)
       currentItemContent = []
+      currentItemLine = i + 2 // 1-based line number of the first content line
       continue
     }
 
@@ -83,268 +108,622 @@ export function parseTqlConversationFromString(content: string): TqlConversation
 
   // Process the last item
   if (currentItemKey && currentItemContent.length > 0) {
-    addItemToSequence(sequence, currentItemKey, currentItemContent.join('\n'))
+    addItemToSequence(storedSequence, {firstLine: currentItemLine, key: currentItemKey, lines: currentItemContent}, context)
   }
 
+  // Documents that were not stored (compact encoding) are rebuilt from their diffs on first access
+  const sequence = addReplayedDocuments(storedSequence, itemLines, context)
+
   // Validate document count
   const actualDocCount = sequence.filter((item) => Object.keys(item)[0].startsWith('#document')).length
   if (actualDocCount !== expectedDocCount) {
-    throw new Error(
-      `Conversation header indicates ${expectedDocCount} documents, but found ${actualDocCount}`,
-    )
+    context.report({
+      code: 'conversation-count',
+      column: 1,
+      line: 1,
+      message: `Conversation header indicates ${expectedDocCount} documents, but found ${actualDocCount}`,
+      severity: 'error',
+    })
+  }
+
+  const conversation: TqlConversation = {
+    ...parseBranches(lines[0], actualDocCount, context),
+    ...(encoding && {encoding}),
+    sequence,
+  }
+  return {conversation, diagnostics: context.diagnostics}
+}
+
+/**
+ * Read the encoding flag from a header like "#conversation[3]: encoding=compact"
+ */
+function parseEncoding(headerLine: string, context: ParseContext): TqlEncoding | undefined {
+  const match = headerLine.match(/\bencoding=(\S*)/)
+  if (!match) return undefined
+
+  if (match[1] !== 'compact' && match[1] !== 'full') {
+    context.report({
+      code: 'unknown-encoding',
+      column: (match.index ?? 0) + 1,
+      line: 1,
+      message: `Unknown encoding "${match[1]}" (expected compact or full)`,
+    })
+    return undefined
+  }
+
+  return match[1]
+}
+
+/**
+ * Read branch heads and the current branch from a header like
+ * "#conversation[5]: branches=main:3,utc:4 current=utc"
+ * Heads that are malformed or point past the last document are reported and left out.
+ */
+function parseBranches(
+  headerLine: string,
+  documentCount: number,
+  context: ParseContext,
+): Pick<TqlConversation, 'branches' | 'currentBranch'> {
+  const match = headerLine.match(/\bbranches=(\S*)/)
+  if (!match) return {}
+
+  const branches: Record<string, number> = {}
+  for (const entry of match[1].split(',')) {
+    const head = entry.match(/^([\w./-]+):(\d+)$/)
+
+    if (!head || Number(head[2]) >= documentCount) {
+      context.report({
+        code: 'unknown-branch',
+        column: (match.index ?? 0) + 1,
+        line: 1,
+        message: `Invalid branch head "${entry}" (expected name:document with an existing document)`,
+      })
+      continue
+    }
+
+    branches[head[1]] = Number(head[2])
+  }
+
+  const current = headerLine.match(/\bcurrent=(\S*)/)
+  if (current && !(current[1] in branches)) {
+    context.report({
+      code: 'unknown-branch',
+      column: (current.index ?? 0) + 1,
+      line: 1,
+      message: `Current branch "${current[1]}" is not in branches=`,
+    })
+    return {branches}
+  }
+
+  return current ? {branches, currentBranch: current[1]} : {branches}
+}
+
+/**
+ * Insert a lazily reconstructed #document[+j] after every $diff[+i→+j] whose target is not in the file
+ * The document is built by applying the diff to document i the first time it is read.
+ */
+function addReplayedDocuments(
+  stored: TqlConversation['sequence'],
+  itemLines: Map<string, number>,
+  context: ParseContext,
+): TqlConversation['sequence'] {
+  const storedDocuments = new Set(stored.map((item) => Object.keys(item)[0]).filter((key) => key.startsWith('#document')))
+  const documents = new Map<number, () => TqlDocument>()
+  const sequence: TqlConversation['sequence'] = []
+
+  for (const item of stored) {
+    sequence.push(item)
+
+    const key = Object.keys(item)[0]
+    const parsed = parseSequenceKey(key)
+
+    if (parsed?.kind === 'document') {
+      documents.set(parsed.index, () => (item as Record<string, TqlDocument>)[key])
+      continue
+    }
+
+    if (parsed?.kind !== 'diff' || storedDocuments.has(`#document[+${parsed.to}]`)) continue
+
+    const source = documents.get(parsed.from)
+    if (!source) {
+      context.report({
+        code: 'missing-document',
+        column: 1,
+        line: itemLines.get(key) ?? 1,
+        message: `Cannot rebuild #document[+${parsed.to}]: ${key} refers to a missing #document[+${parsed.from}]`,
+        severity: 'error',
+      })
+      continue
+    }
+
+    const documentKey = `#document[+${parsed.to}]`
+    const resolve = replayOnce(source, (item as Record<string, TqlDiff>)[key], context.typed)
+
+    const replayed = {}
+    Object.defineProperty(replayed, documentKey, {enumerable: true, get: resolve})
+    documents.set(parsed.to, resolve)
+    sequence.push(replayed as TqlConversation['sequence'][number])
   }
 
-  return {sequence}
+  return sequence
+}
+
+/**
+ * Return a function that applies the diff to the source document on first call and caches the result
+ * (typed: the rows the diff adds are read as text, so the result is typed again)
+ */
+function replayOnce(source: () => TqlDocument, diff: TqlDiff, typed: boolean): () => TqlDocument {
+  let cached: TqlDocument | undefined
+  return () => {
+    cached ??= typed ? typeTableCells(applyDiff(source(), diff)) : applyDiff(source(), diff)
+    return cached
+  }
+}
+
+/**
+ * Shared state while parsing: collected diagnostics and how to react to them
+ */
+interface ParseContext {
+  diagnostics: TqlDiagnostic[]
+  report(problem: Omit<TqlDiagnostic, 'file' | 'severity'> & {severity?: TqlDiagnosticSeverity}): void
+  // Type @table cells of every document (TqlParseOptions.typed)
+  typed: boolean
+}
+
+function createParseContext(options: TqlParseOptions): ParseContext {
+  const diagnostics: TqlDiagnostic[] = []
+
+  return {
+    diagnostics,
+    report({severity = 'warning', ...problem}) {
+      const diagnostic: TqlDiagnostic = {...problem, file: options.file, severity}
+      diagnostics.push(diagnostic)
+
+      // Strict mode rejects every problem; default mode only errors; lenient mode never throws
+      if (options.strict || (severity === 'error' && !options.lenient)) {
+        throw new TqlParseError(diagnostic)
+      }
+    },
+    typed: Boolean(options.typed),
+  }
 }
 
 /**
  * Helper to add an item to the sequence based on its key
  */
-function addItemToSequence(sequence: TqlConversation['sequence'], key: string, content: string): void {
+function addItemToSequence(
+  sequence: TqlConversation['sequence'],
+  item: {firstLine: number; key: string; lines: string[]},
+  context: ParseContext,
+): void {
+  const {firstLine, key, lines} = item
+
   if (key.startsWith('#document')) {
     // Parse document content
-    const doc = parseTqlDocumentFromString(content)
+    const doc = parseDocumentLines(lines, firstLine, context)
     sequence.push({[key]: doc} as any)
   } else if (key.startsWith('$diff')) {
     // Parse diff markdown content back to TqlDiff structure
-    const diff = parseDiffFromString(content)
+    const diff = parseDiffLines(lines, firstLine, context)
     sequence.push({[key]: diff} as any)
   }
 }
 
 /**
  * Parse diff markdown content back into TqlDiff structure
- * This reconstructs the TqlDiff object from the markdown tables
+ * Facet headers carry status and row counts (`@meaning[2]: modified 9→9`) and the after row
+ * of a modification lists its modified fields, so a diff reads back equal to the one written.
+ * Diffs written before those were recorded are still read: their facets are marked modified
+ * with unknown (0) row counts, and adjacent -/+ rows with the same index become modifications.
+ * Unknown facets, rows before a separator or with the wrong number of cells, and rows without a
+ * -/+ marker are reported like problems in documents.
  */
-function parseDiffFromString(content: string): any {
-  const lines = content.split('\n')
-  const facets: any[] = []
-
-  let currentFacet: string | null = null
-  let currentChanges: any[] = []
-  let inTable = false
-  let headers: string[] = []
+function parseDiffLines(lines: string[], firstLine: number, context: ParseContext): TqlDiff {
+  const facets: FacetDiff[] = []
+  let current: FacetDiff | undefined
+  let metadata: DiffMetadata | undefined
+  let schema: TableSchemaDiff | undefined
+  let section: 'facet' | 'metadata' | 'schema' | undefined
+  // Name of the current section for diagnostics, e.g. meaning or metadata
+  let sectionName = ''
+  let legacy = false
+  let headers: null | string[] = null
+  let headerParsed = false
 
-  for (const line of lines) {
+  for (const [i, line] of lines.entries()) {
     const trimmed = line.trim()
+    const lineNumber = firstLine + i
+
+    // Match the attribution section: @metadata[3]:
+    if (/^@metadata\[\d+\]:$/.test(trimmed)) {
+      metadata = {}
+      section = 'metadata'
+      sectionName = 'metadata'
+      headers = null
+      continue
+    }
 
-    // Match facet headers like @meaning[1]:
-    const facetMatch = trimmed.match(/^@(\w+)\[(\d+)\]:/)
+    // Match the @table column section: @schema[2]: key=transfer_id
+    const schemaMatch = trimmed.match(/^@schema\[\d+\]:(?:\s+key=(.*))?$/)
+    if (schemaMatch) {
+      schema = {added: [], columns: [], removed: [], renamed: []}
+      if (schemaMatch[1]) schema.key = unescapeCell(schemaMatch[1].trim())
+      section = 'schema'
+      sectionName = 'schema'
+      headers = null
+      continue
+    }
+
+    // Match facet headers like @meaning[1]: modified 9→9
+    const facetMatch = trimmed.match(/^@(\w+)\[(\d+)\]:(?:\s+(added|modified|removed|unchanged)\s+(\d+)→(\d+))?/)
     if (facetMatch) {
-      // Save previous facet if exists
-      if (currentFacet && currentChanges.length > 0) {
-        facets.push({
-          facetName: currentFacet,
-          changes: currentChanges,
-          status: 'modified' as const,
-          rowsBefore: 0, // Not stored in markdown, placeholder
-          rowsAfter: 0,  // Not stored in markdown, placeholder
-        })
+      if (!isFacetName(facetMatch[1])) {
+        context.report({code: 'unknown-facet', column: 1, line: lineNumber, message: `Unknown facet @${facetMatch[1]}`})
       }
 
-      currentFacet = facetMatch[1]
-      currentChanges = []
-      inTable = false
+      legacy = !facetMatch[3]
+      current = {
+        changes: [],
+        facetName: facetMatch[1],
+        rowsAfter: legacy ? 0 : Number(facetMatch[5]),
+        rowsBefore: legacy ? 0 : Number(facetMatch[4]),
+        status: legacy ? 'modified' : (facetMatch[3] as ChangeType),
+      }
+      facets.push(current)
+      section = 'facet'
+      sectionName = current.facetName
+      headers = null
       continue
     }
 
-    // Parse table header
-    if (trimmed.startsWith('|') && !inTable && !isSeparatorRow(trimmed)) {
-      headers = parseTableRow(trimmed)
-      inTable = true
+    if (!section || !trimmed.startsWith('|')) continue
+
+    if (isSeparatorRow(trimmed)) {
+      headerParsed = true
       continue
     }
 
-    // Skip separator row
-    if (isSeparatorRow(trimmed)) {
+    // First table row holds the column names (first column is Δ)
+    const cells = parseTableRow(trimmed)
+    if (!headers) {
+      headers = cells
+      headerParsed = false
       continue
     }
 
-    // Parse data rows
-    if (inTable && trimmed.startsWith('|') && currentFacet) {
-      const cells = parseTableRow(trimmed)
-      const delta = cells[0] // First column is Δ
+    const tableRow = {cells, headerParsed, headers, line: lineNumber, marker: section === 'facet', name: `$diff @${sectionName}`}
+    if (!checkDiffRow(tableRow, context)) continue
 
-      // Build row object from headers and cells
-      const row: any = {}
-      for (let i = 1; i < headers.length; i++) {
-        row[headers[i]] = cells[i] || ''
-      }
+    if (section === 'metadata') {
+      addParsedMetadataField(metadata!, cells)
+      continue
+    }
 
-      // Determine change type based on delta symbol
-      if (delta === '+') {
-        currentChanges.push({
-          type: 'added',
-          after: row,
-          index: row.index,
-        })
-      } else if (delta === '-') {
-        currentChanges.push({
-          type: 'removed',
-          before: row,
-          index: row.index,
-        })
-      }
+    if (section === 'schema') {
+      addParsedSchemaColumn(schema!, cells)
+      continue
     }
-  }
 
-  // Save last facet
-  if (currentFacet && currentChanges.length > 0) {
-    facets.push({
-      facetName: currentFacet,
-      changes: mergeModifiedChanges(currentChanges),
-      status: 'modified' as const,
-      rowsBefore: 0,
-      rowsAfter: 0,
-    })
+    // The first column is the Δ marker
+    const row = readRow(headers.slice(1), cells.slice(1))
+    addParsedChange(current!.changes, cells[0], row as Record<string, string>, legacy)
   }
 
+  const changedFacets = facets.filter((f) => f.status !== 'unchanged')
+
   return {
     facets,
-    status: 'success',
+    ...(metadata && {metadata}),
+    ...(schema && {schema}),
+    status: schema ? 'table_changed' : 'success',
     summary: {
-      totalFacetsChanged: facets.length,
-      totalFacetsUnchanged: 0,
-      totalRowChanges: facets.reduce((sum: number, f: any) => sum + f.changes.length, 0),
+      totalFacetsChanged: changedFacets.length,
+      totalFacetsUnchanged: facets.length - changedFacets.length,
+      totalRowChanges: facets.reduce((sum, f) => sum + f.changes.length, 0),
+      ...countRowChanges(facets),
     },
   }
 }
 
 /**
- * Merge consecutive removed/added changes with same index into modified changes
+ * Report a diff row that is out of place or malformed
+ * @returns Whether the row can be read
  */
-function mergeModifiedChanges(changes: any[]): any[] {
-  const merged: any[] = []
-  const indexMap = new Map<string, any>()
-
-  for (const change of changes) {
-    const idx = change.index
-
-    if (change.type === 'removed') {
-      // Check if we already have an added change for this index
-      if (indexMap.has(idx) && indexMap.get(idx).type === 'added') {
-        const added = indexMap.get(idx)
-        merged.push({
-          type: 'modified',
-          before: change.before,
-          after: added.after,
-          index: idx,
-          modifiedFields: [], // Not available from markdown
-        })
-        indexMap.delete(idx)
-      } else {
-        indexMap.set(idx, change)
-      }
-    } else if (change.type === 'added') {
-      // Check if we already have a removed change for this index
-      if (indexMap.has(idx) && indexMap.get(idx).type === 'removed') {
-        const removed = indexMap.get(idx)
-        merged.push({
-          type: 'modified',
-          before: removed.before,
-          after: change.after,
-          index: idx,
-          modifiedFields: [], // Not available from markdown
-        })
-        indexMap.delete(idx)
-      } else {
-        indexMap.set(idx, change)
-      }
+function checkDiffRow(
+  // marker: the first cell is the -/+ change marker
+  row: {cells: string[]; headerParsed: boolean; headers: string[]; line: number; marker: boolean; name: string},
+  context: ParseContext,
+): boolean {
+  const {cells, headers, line, name} = row
+
+  if (!row.headerParsed) {
+    context.report({
+      code: 'row-before-separator',
+      column: 1,
+      line,
+      message: `Data row in ${name} before the header separator`,
+    })
+    return false
+  }
+
+  if (cells.length !== headers.length) {
+    context.report({
+      code: 'cell-count',
+      column: 1,
+      line,
+      message: `Row in ${name} has ${cells.length} cells, expected ${headers.length}`,
+    })
+  }
+
+  if (row.marker && cells[0] !== '-' && !cells[0].startsWith('+')) {
+    context.report({
+      code: 'unknown-change',
+      column: 3,
+      line,
+      message: `Diff row starts with "${cells[0]}", expected - or +`,
+    })
+    return false
+  }
+
+  return true
+}
+
+/**
+ * Add one parsed @metadata row: [field, value]
+ */
+function addParsedMetadataField(metadata: DiffMetadata, [field, value]: string[]): void {
+  switch (field) {
+    case 'actor': {
+      metadata.actor = value as DiffActor
+      break
+    }
+
+    case 'author':
+    case 'reason':
+    case 'timestamp': {
+      metadata[field] = value
+      break
+    }
+
+    case 'queryIndex': {
+      metadata.queryIndex = Number(value)
+      break
+    }
+  }
+}
+
+/**
+ * Add one parsed @schema row: [Δ, column, previous]
+ */
+function addParsedSchemaColumn(schema: TableSchemaDiff, [delta, column, previous]: string[]): void {
+  switch (delta) {
+    case '+': {
+      schema.added.push(column)
+      schema.columns.push(column)
+      break
+    }
+
+    case '-': {
+      schema.removed.push(column)
+      break
+    }
+
+    case '>': {
+      schema.renamed.push({from: previous ?? '', to: column})
+      schema.columns.push(column)
+      break
     }
+
+    default: {
+      schema.columns.push(column)
+    }
+  }
+}
+
+/**
+ * Add one parsed diff row: "-" removed, "+" added, or "+ fields" completing a modification or move
+ */
+function addParsedChange(changes: RowChange[], delta: string, row: Record<string, string>, legacy: boolean): void {
+  const index = Number(row.index)
+
+  if (delta === '-') {
+    changes.push({before: row, index, type: 'removed'})
+    return
   }
 
-  // Add any remaining standalone changes
-  for (const change of indexMap.values()) {
-    merged.push(change)
+  if (!delta.startsWith('+')) return
+
+  const fields = delta.slice(1).trim()
+  const previous = changes.at(-1)
+
+  // Listed fields pair the row with the "-" row before it; legacy diffs paired rows by equal index
+  if (previous?.type === 'removed' && (fields || (legacy && previous.before?.index === row.index))) {
+    const before = previous.before!
+    const listed = fields
+      ? fields.split(', ').map((field) => unescapeCell(field))
+      : Object.keys({...before, ...row}).filter((key) => key !== 'index' && before[key] !== row[key])
+    const modifiedFields = listed.filter((field) => field !== 'index')
+    const moved = listed.includes('index')
+
+    changes[changes.length - 1] = {
+      after: row,
+      before,
+      index,
+      ...((modifiedFields.length > 0 || legacy) && {modifiedFields}),
+      ...(moved && {previousIndex: Number(before.index)}),
+      type: modifiedFields.length > 0 || legacy ? 'modified' : 'moved',
+    }
+    return
   }
 
-  return merged
+  changes.push({after: row, index, type: 'added'})
 }
 
 /**
  * Parse TQL document content string into a TqlDocument structure
  * (internal function - parses facets only, no conversation wrapper)
  */
-export function parseTqlDocumentFromString(content: string): TqlDocument {
-  const lines = content.split('\n')
+export function parseTqlDocumentFromString(content: string, options: TqlParseOptions = {}): TqlDocument {
+  return parseDocumentLines(content.split('\n'), 1, createParseContext(options))
+}
 
-  const doc: TqlDocument = {
-    ambiguity: {rows: []},
-    context: {rows: []},
-    intent: {rows: []},
-    meaning: {rows: []},
-    query: {rows: []},
-    score: {rows: []},
-    structure: {rows: []},
-    table: {rows: []},
-    tasks: {rows: []},
-  }
+/**
+ * Parse the lines of a document, reporting problems with line numbers relative to the file
+ * @param lines - Document content lines
+ * @param firstLine - 1-based file line number of lines[0]
+ * @param context - Parse context collecting diagnostics
+ */
+function parseDocumentLines(lines: string[], firstLine: number, context: ParseContext): TqlDocument {
+  const doc = createEmptyDocument()
 
-  let currentFacet: null | string = null
-  let currentHeaders: string[] = []
-  let inDataSection = false
-  let headerParsed = false
+  let section: FacetSection | null = null
+  const seenFacets = new Set<string>()
 
-  for (const line_ of lines) {
+  for (const [i, line_] of lines.entries()) {
     const line = line_.trim()
+    const lineNumber = firstLine + i
 
     // Detect end of table section (empty line after table)
-    if (line === '' && currentHeaders.length > 0) {
-      currentHeaders = []
-      inDataSection = false
-      headerParsed = false
+    if (line === '' && section && section.headers.length > 0) {
+      finishSection(section, context)
+      section = null
       continue
     }
 
     // Detect facet headers (e.g., @table[25]:)
-    const facetName = parseFacetHeader(line)
-    if (facetName) {
-      currentFacet = facetName
-      inDataSection = true
-      headerParsed = false
-      currentHeaders = []
+    const header = parseFacetHeader(line)
+    if (header) {
+      if (section) finishSection(section, context)
+      section = {count: header.count, headerParsed: false, headers: [], line: lineNumber, name: header.name, rows: 0}
+
+      if (!isFacetName(header.name)) {
+        context.report({code: 'unknown-facet', column: 1, line: lineNumber, message: `Unknown facet @${header.name}`})
+      } else if (seenFacets.has(header.name)) {
+        context.report({
+          code: 'duplicate-facet',
+          column: 1,
+          line: lineNumber,
+          message: `Duplicate facet @${header.name}`,
+        })
+      }
+
+      seenFacets.add(header.name)
       continue
     }
 
     // Skip empty lines or lines without a current facet
-    if (!line || !currentFacet) continue
+    if (!line || !section) continue
 
     // Skip separator rows (mark header as parsed)
     if (isSeparatorRow(line)) {
-      headerParsed = true
+      section.headerParsed = true
       continue
     }
 
+    if (!isTableRow(line)) continue
+
     // Parse table header row
-    if (inDataSection && isTableRow(line) && !headerParsed && currentHeaders.length === 0) {
-      currentHeaders = parseTableRow(line)
+    if (!section.headerParsed && section.headers.length === 0) {
+      section.headers = parseTableRow(line)
+      checkHeaders(section, line_, lineNumber, context)
       continue
     }
 
-    // Parse data rows (only after header is parsed)
-    if (inDataSection && headerParsed && isTableRow(line)) {
-      const cells = parseTableRow(line)
-      const row: Record<string, string> = {}
+    // Data rows are only accepted after the separator
+    if (!section.headerParsed) {
+      context.report({
+        code: 'row-before-separator',
+        column: 1,
+        line: lineNumber,
+        message: `Data row in @${section.name} before the header separator`,
+      })
+      continue
+    }
 
-      for (const [j, currentHeader] of currentHeaders.entries()) {
-        row[currentHeader] = cells[j] || ''
-      }
+    const cells = parseTableRow(line)
+    if (cells.length !== section.headers.length) {
+      context.report({
+        code: 'cell-count',
+        column: 1,
+        line: lineNumber,
+        message: `Row in @${section.name} has ${cells.length} cells, expected ${section.headers.length}`,
+      })
+    }
+
+    section.rows++
+    addRowToFacet(doc, section.name, readRow(section.headers, cells))
+  }
 
-      addRowToFacet(doc, currentFacet, row)
+  if (section) finishSection(section, context)
+
+  return context.typed ? typeTableCells(doc) : doc
+}
+
+/**
+ * State of the facet table currently being parsed
+ */
+interface FacetSection {
+  count: number
+  headerParsed: boolean
+  headers: string[]
+  line: number
+  name: string
+  rows: number
+}
+
+/**
+ * Check that a facet's row count matches the count declared in its @facet[n] header
+ */
+function finishSection(section: FacetSection, context: ParseContext): void {
+  if (isFacetName(section.name) && section.rows !== section.count) {
+    context.report({
+      code: 'facet-count',
+      column: 1,
+      line: section.line,
+      message: `@${section.name}[${section.count}] declares ${section.count} rows, but found ${section.rows}`,
+    })
+  }
+}
+
+/**
+ * Report header cells that are not columns of the facet
+ */
+function checkHeaders(section: FacetSection, rawLine: string, lineNumber: number, context: ParseContext): void {
+  const known = getFacetDefinition(section.name)?.columns
+  if (!known || section.name === 'table') return
+
+  for (const header of section.headers) {
+    if (!known.includes(header)) {
+      const column = rawLine.indexOf(header) + 1
+      context.report({
+        code: 'unknown-header',
+        column,
+        line: lineNumber,
+        message: `Unknown column "${header}" in @${section.name}`,
+      })
     }
   }
+}
 
-  return doc
+/**
+ * Row of a table from its headers and cells (missing cells are empty)
+ * Indices are numbers, like those of rows built in memory; other cells are text.
+ */
+function readRow(headers: string[], cells: string[]): Record<string, number | string> {
+  return Object.fromEntries(
+    headers.map((header, i) => {
+      const cell = cells[i] ?? ''
+      return [header, header === 'index' && /^\d+$/.test(cell) ? Number(cell) : cell]
+    }),
+  )
 }
 
 /**
  * Parse a markdown table row into an array of cell values
+ * (splits on unescaped pipes and unescapes each cell, see escape.ts)
  */
 function parseTableRow(line: string): string[] {
-  // Remove leading and trailing pipes and split by pipe
-  const trimmed = line.trim().slice(1, -1) // Remove first and last |
-  const cells = trimmed.split('|').map((cell) => cell.trim())
-  return cells
+  return splitTableRow(line.trim())
 }
 
 /**
@@ -362,37 +741,22 @@ function isTableRow(line: string): boolean {
 }
 
 /**
- * Parse facet header and return facet name if found
- * (e.g., @table[25]: returns 'table')
- */
-function parseFacetHeader(line: string): null | string {
-  const facetMatch = line.match(/^@(\w+)\[\d+\]:/)
-  return facetMatch ? facetMatch[1] : null
-}
-
-/**
- * Facet registry: maps facet names to functions that add rows to the document
- * This pattern makes it easy to add new facets without modifying parser logic
+ * Parse facet header and return facet name and declared row count if found
+ * (e.g., @table[25]: returns {name: 'table', count: 25})
  */
-const FACET_REGISTRY: Record<string, (doc: TqlDocument, row: Record<string, string>) => void> = {
-  ambiguity: (doc, row) => doc.ambiguity.rows.push(row as unknown as AmbiguityRow),
-  context: (doc, row) => doc.context.rows.push(row as unknown as ContextRow),
-  intent: (doc, row) => doc.intent.rows.push(row as unknown as IntentRow),
-  meaning: (doc, row) => doc.meaning.rows.push(row as unknown as MeaningRow),
-  query: (doc, row) => doc.query.rows.push(row as unknown as QueryRow),
-  score: (doc, row) => doc.score.rows.push(row as unknown as ScoreRow),
-  structure: (doc, row) => doc.structure.rows.push(row as unknown as StructureRow),
-  table: (doc, row) => doc.table.rows.push(row as unknown as TableRow),
-  tasks: (doc, row) => doc.tasks.rows.push(row as unknown as TasksRow),
+function parseFacetHeader(line: string): null | {count: number; name: string} {
+  const facetMatch = line.match(/^@(\w+)\[(\d+)\]:/)
+  return facetMatch ? {count: Number.parseInt(facetMatch[2], 10), name: facetMatch[1]} : null
 }
 
 /**
- * Add a row to the appropriate facet in the document using the registry pattern
+ * Add a row to its facet (rows of unknown facets are dropped; they are reported as unknown-facet)
+ * Columns missing from the file, such as those added to a facet after it was written, read as empty.
  */
-function addRowToFacet(doc: TqlDocument, facet: string, row: Record<string, string>): void {
-  const addRow = FACET_REGISTRY[facet]
-  if (addRow) {
-    addRow(doc, row)
+function addRowToFacet(doc: TqlDocument, facet: string, row: Record<string, number | string>): void {
+  if (isFacetName(facet)) {
+    const missing = getFacetDefinition(facet)!.columns.filter((column) => !(column in row))
+    ;(doc[facet].rows as unknown[]).push({...row, ...Object.fromEntries(missing.map((column) => [column, '']))})
   }
 }
 
@@ -0,0 +1,198 @@
+import type {TqlDocument} from './types.js'
+
+import {formatEnumValues} from '../generators/profile.js'
+import {FACET_COLUMNS, FACET_KEYS} from './types.js'
+
+/**
+ * How a facet is stored, diffed and checked
+ */
+export interface FacetDefinition {
+  // Columns in file order, after index (@table has none: its columns come from the data)
+  columns: string[]
+  // Column that identifies a row across documents, so diffs align rows by it rather than by position
+  identityKey?: string
+  // Facet name without the @, e.g. 'lineage'
+  name: string
+  // Columns every row must fill in
+  required?: string[]
+  // Return a problem with a row, or undefined when it is valid (checked on insert and update)
+  validate?: (row: Record<string, string>) => string | undefined
+  // Allowed values of enumerated columns (a blank cell is allowed unless the column is required)
+  values?: Record<string, string[]>
+}
+
+// Facets every document has, in file order
+export const BUILTIN_FACETS = [
+  'table',
+  'meaning',
+  'structure',
+  'ambiguity',
+  'intent',
+  'context',
+  'query',
+  'tasks',
+  'score',
+] as const
+
+// Required columns and enumerations of the built-in facets
+const BUILTIN_SCHEMAS: Partial<Record<string, Pick<FacetDefinition, 'required' | 'values'>>> = {
+  ambiguity: {required: ['query_trigger', 'ambiguity_type'], values: {'ambiguity_risk': ['low', 'medium', 'high']}},
+  context: {required: ['key']},
+  intent: {required: ['query_trigger'], values: {'user_confirmed': ['yes', 'no']}},
+  meaning: {required: ['column']},
+  query: {required: ['user_message']},
+  score: {required: ['measure']},
+  structure: {
+    required: ['column'],
+    values: {
+      dataType: ['string', 'integer', 'decimal', 'boolean', 'date', 'datetime', 'enum'],
+      nullAllowed: ['true', 'false'],
+    },
+  },
+  tasks: {required: ['name']},
+}
+
+// Section names of a $diff block, so a facet cannot be named after them
+const RESERVED_NAMES = new Set(['metadata', 'schema'])
+
+const customFacets = new Map<string, FacetDefinition>()
+
+/**
+ * Add a custom facet, e.g. registerFacet({name: 'lineage', columns: ['column', 'source'], identityKey: 'column'})
+ *
+ * Registered facets are parsed, written after the built-in facets, diffed, and accepted by the
+ * CRUD operations and the CLI's --facet flags. Register before parsing or creating documents:
+ * documents created afterwards start with an empty facet.
+ *
+ * @throws Error when the name is taken or invalid, or identityKey is not one of the columns
+ */
+export function registerFacet(definition: FacetDefinition): void {
+  const {columns, identityKey, name} = definition
+
+  if (!/^\w+$/.test(name)) {
+    throw new Error(`Invalid facet name "${name}" (use letters, digits and '_')`)
+  }
+
+  if (isFacetName(name) || RESERVED_NAMES.has(name)) {
+    throw new Error(`Facet @${name} already exists`)
+  }
+
+  if (columns.length === 0 || columns.includes('index') || new Set(columns).size !== columns.length) {
+    throw new Error(`Facet @${name} needs distinct columns (index is added automatically)`)
+  }
+
+  if (identityKey !== undefined && !columns.includes(identityKey)) {
+    throw new Error(`Identity key "${identityKey}" is not a column of @${name}`)
+  }
+
+  const constrained = [...(definition.required ?? []), ...Object.keys(definition.values ?? {})]
+  const unknown = constrained.find((column) => !columns.includes(column))
+  if (unknown !== undefined) {
+    throw new Error(`"${unknown}" is not a column of @${name}`)
+  }
+
+  customFacets.set(name, {...definition, columns: ['index', ...columns]})
+}
+
+/**
+ * Remove a custom facet (documents keep any rows already read into them)
+ * @returns Whether the facet was registered
+ */
+export function unregisterFacet(name: string): boolean {
+  return customFacets.delete(name)
+}
+
+/**
+ * Definition of a built-in or registered facet (columns include index)
+ */
+export function getFacetDefinition(name: string): FacetDefinition | undefined {
+  if (name === 'table') return {columns: [], name}
+
+  const columns: readonly string[] | undefined = FACET_COLUMNS[name as keyof typeof FACET_COLUMNS]
+  if (columns) {
+    return {
+      columns: [...columns],
+      identityKey: FACET_KEYS[name as keyof typeof FACET_KEYS],
+      name,
+      ...BUILTIN_SCHEMAS[name],
+    }
+  }
+
+  return customFacets.get(name)
+}
+
+export interface ValidateRowOptions {
+  // Columns the row may use (default: the facet's columns; @table has none of its own, so pass the table's)
+  columns?: string[]
+  // Only check these fields, e.g. the ones an update changes (default: the whole row)
+  fields?: string[]
+}
+
+/**
+ * Check a row against its facet's schema: only the facet's columns, required columns filled in,
+ * enumerated columns one of their values (ignoring case), then the facet's validate function
+ *
+ * @param name - Facet name
+ * @param row - Row to check (index is ignored)
+ * @param options - See ValidateRowOptions
+ * @returns One problem per invalid field, empty when the row is valid
+ */
+export function validateFacetRow(
+  name: string,
+  row: Record<string, unknown>,
+  options: ValidateRowOptions = {},
+): string[] {
+  const definition = getFacetDefinition(name)
+  if (!definition) return [`Unknown facet @${name}`]
+
+  const problems: string[] = []
+  const {fields} = options
+  const checked = (fields ?? Object.keys(row)).filter((field) => field !== 'index')
+  const text = (field: string) => String(row[field] ?? '').trim()
+
+  const allowed = (options.columns ?? definition.columns).filter((column) => column !== 'index')
+  const unknown = checked.filter((field) => !allowed.includes(field))
+  if (unknown.length > 0 && allowed.length > 0) {
+    const plural = unknown.length === 1 ? '' : 's'
+    problems.push(`unknown field${plural} ${unknown.join(', ')} (allowed: ${allowed.join(', ')})`)
+  }
+
+  for (const column of definition.required ?? []) {
+    if ((fields === undefined || checked.includes(column)) && text(column) === '') {
+      problems.push(`${column} is required`)
+    }
+  }
+
+  for (const [column, values] of Object.entries(definition.values ?? {})) {
+    const value = text(column)
+    if (checked.includes(column) && !isAllowedValue(value, values)) {
+      problems.push(`${column} must be one of ${formatEnumValues(values)} (got "${value}")`)
+    }
+  }
+
+  const problem = problems.length === 0 ? definition.validate?.(row as Record<string, string>) : undefined
+  return problem ? [problem] : problems
+}
+
+function isAllowedValue(value: string, values: string[]): boolean {
+  return value === '' || values.some((allowed) => allowed.toLowerCase() === value.toLowerCase())
+}
+
+/**
+ * Names of all facets, built-in ones first, then registered ones in registration order
+ */
+export function getFacetNames(): string[] {
+  return [...BUILTIN_FACETS, ...customFacets.keys()]
+}
+
+export function isFacetName(name: string): boolean {
+  return (BUILTIN_FACETS as readonly string[]).includes(name) || customFacets.has(name)
+}
+
+/**
+ * A document with every facet empty
+ */
+export function createEmptyDocument(): TqlDocument {
+  const names = [...[...BUILTIN_FACETS].sort(), ...customFacets.keys()]
+  return Object.fromEntries(names.map((name) => [name, {rows: []}])) as unknown as TqlDocument
+}
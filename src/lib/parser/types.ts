@@ -1,6 +1,8 @@
 // Type definitions for TQL document structure
 
 export interface TqlDocument {
+  // Facets added with registerFacet, by name
+  [facet: string]: CustomFacet | TqlDocumentFacet
   ambiguity: AmbiguityFacet
   context: ContextFacet
   intent: IntentFacet
@@ -12,15 +14,53 @@ export interface TqlDocument {
   tasks: TasksFacet
 }
 
+// One of the built-in facets of a document
+export type TqlDocumentFacet =
+  | AmbiguityFacet
+  | ContextFacet
+  | IntentFacet
+  | MeaningFacet
+  | QueryFacet
+  | ScoreFacet
+  | StructureFacet
+  | TableFacet
+  | TasksFacet
+
+// Column headers of each fixed-schema facet, in file order
+// (@table columns come from the data, so it has no fixed header list)
+export const FACET_COLUMNS = {
+  ambiguity: ['index', 'query_trigger', 'ambiguity_type', 'ambiguity_risk', 'description'],
+  context: ['index', 'key', 'value'],
+  intent: ['index', 'query_trigger', 'clarifying_question', 'options', 'user_response', 'user_confirmed'],
+  meaning: ['index', 'column', 'definition'],
+  query: ['index', 'user_message', 'timestamp_utc'],
+  score: ['index', 'measure', 'value'],
+  structure: ['index', 'column', 'nullAllowed', 'dataType', 'minValue', 'maxValue', 'format'],
+  tasks: ['index', 'name', 'description', 'formula'],
+} as const
+
+// Column that identifies a row of each facet across documents, so diffs align rows by it
+// rather than by position (facets without one are aligned by index)
+export const FACET_KEYS: Readonly<Partial<Record<keyof typeof FACET_COLUMNS, string>>> = {
+  context: 'key',
+  meaning: 'column',
+  score: 'measure',
+  structure: 'column',
+  tasks: 'name',
+}
+
 export interface TableFacet {
   rows: TableRow[]
 }
 
 export interface TableRow {
-  [key: string]: number | string  // Dynamic columns from CSV
+  [key: string]: TableCell  // Dynamic columns from CSV
   index: number
 }
 
+// Value of a @table cell: text as read, or typed by typeTableCells (null is an empty cell)
+export type TableCell = boolean | Date | null | number | string
+
 export interface MeaningFacet {
   rows: MeaningRow[]
 }
@@ -50,8 +90,11 @@ export interface AmbiguityFacet {
 }
 
 export interface AmbiguityRow {
+  // low, medium or high
   ambiguity_risk: string
   ambiguity_type: string
+  // What is at risk if the ambiguity is not resolved
+  description: string
   index: number
   query_trigger: string
 }
@@ -93,6 +136,16 @@ export interface TasksFacet {
   rows: TasksRow[]
 }
 
+// Row of a facet added with registerFacet: index plus the facet's columns
+export interface CustomFacetRow {
+  [column: string]: number | string
+  index: number
+}
+
+export interface CustomFacet {
+  rows: CustomFacetRow[]
+}
+
 export interface TasksRow {
   description: string
   formula: string
@@ -115,8 +168,24 @@ export type SequenceItem =
   | Record<`#document[+${number}]`, TqlDocument>
   | Record<`$diff[+${number}→+${number}]`, TqlDiff>
 
+// How a conversation is stored on disk:
+// full    - every #document[+n] is written in full
+// compact - only #document[+0] is written; later documents are rebuilt by replaying $diff blocks
+export type TqlEncoding = 'compact' | 'full'
+
+// Branch of a conversation without named branches
+export const DEFAULT_BRANCH = 'main'
+
 // Conversation type (sequence of documents and diffs)
+// Each $diff[+i→+j] records which document j was derived from, so documents form a tree;
+// named branches point at the latest document of each line of work.
 export interface TqlConversation {
+  // Branch heads: branch name → index of its latest document (absent: one linear branch)
+  branches?: Record<string, number>
+  // Branch that new documents extend (default: main)
+  currentBranch?: string
+  // Storage encoding read from (and written to) the #conversation header (default: full)
+  encoding?: TqlEncoding
   sequence: SequenceItem[]
 }
 
@@ -127,17 +196,51 @@ export function getDocuments(conversation: TqlConversation): TqlDocument[] {
     .map((item) => Object.values(item)[0] as TqlDocument)
 }
 
+/**
+ * Index of the current branch's latest document (the last document when there are no branches)
+ */
+export function getHeadIndex(conversation: TqlConversation): number {
+  const head = conversation.branches?.[conversation.currentBranch ?? DEFAULT_BRANCH]
+  return head ?? getDocumentCount(conversation) - 1
+}
+
+/**
+ * Latest document of the current branch
+ */
 export function getLastDocument(conversation: TqlConversation): TqlDocument | undefined {
   const docs = getDocuments(conversation)
-  return docs[docs.length - 1]
+  return docs[getHeadIndex(conversation)]
 }
 
 export function getDocumentCount(conversation: TqlConversation): number {
-  return getDocuments(conversation).length
+  // Count keys only, so lazily reconstructed documents are not materialized
+  return conversation.sequence.filter((item) => Object.keys(item)[0].startsWith('#document')).length
+}
+
+// Parsed form of a sequence key: #document[+n] or $diff[+i→+j]
+export type SequenceKey =
+  | {from: number; kind: 'diff'; to: number}
+  | {index: number; kind: 'document'}
+
+/**
+ * Parse a sequence key such as '#document[+2]' or '$diff[+1→+2]'
+ */
+export function parseSequenceKey(key: string): SequenceKey | undefined {
+  const docMatch = key.match(/^#document\[\+(\d+)\]$/)
+  if (docMatch) {
+    return {index: Number(docMatch[1]), kind: 'document'}
+  }
+
+  const diffMatch = key.match(/^\$diff\[\+(\d+)→\+(\d+)\]$/)
+  if (diffMatch) {
+    return {from: Number(diffMatch[1]), kind: 'diff', to: Number(diffMatch[2])}
+  }
+
+  return undefined
 }
 
 // Diff types
-export type ChangeType = 'added' | 'modified' | 'removed' | 'unchanged'
+export type ChangeType = 'added' | 'modified' | 'moved' | 'removed' | 'unchanged'
 
 export interface RowChange {
   after?: Record<string, string>
@@ -145,6 +248,8 @@ export interface RowChange {
   index: number
   // For modified rows: which specific fields changed
   modifiedFields?: string[]
+  // For rows whose index changed (moved, or modified and moved): the index in the before document
+  previousIndex?: number
   type: ChangeType
 }
 
@@ -156,12 +261,48 @@ export interface FacetDiff {
   status: ChangeType
 }
 
+// Column changes of @table between two documents
+export interface TableSchemaDiff {
+  // Columns only in the after table
+  added: string[]
+  // Column order of the after table
+  columns: string[]
+  // Primary-key column data rows were matched by (absent: matched by index)
+  key?: string
+  // Columns only in the before table
+  removed: string[]
+  // Columns whose values carried over under a new name
+  renamed: Array<{from: string; to: string}>
+}
+
+// Who made a change: a person, an assistant (LLM), or an automated rule
+export type DiffActor = 'assistant' | 'human' | 'rule'
+
+// Attribution and rationale recorded with a $diff (every field optional)
+export interface DiffMetadata {
+  actor?: DiffActor
+  author?: string
+  // Index of the @query row that prompted the change
+  queryIndex?: number
+  // Free-text reason for the change
+  reason?: string
+  // ISO-8601 time of the change
+  timestamp?: string
+}
+
 export interface TqlDiff {
   facets: FacetDiff[]
+  metadata?: DiffMetadata
+  // Present when @table changed (status is then 'table_changed')
+  schema?: TableSchemaDiff
   status: 'success' | 'table_changed'
   summary: {
     totalFacetsChanged: number
     totalFacetsUnchanged: number
     totalRowChanges: number
+    totalRowsAdded: number
+    totalRowsModified: number
+    totalRowsMoved: number
+    totalRowsRemoved: number
   }
 }
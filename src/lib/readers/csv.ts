@@ -1,56 +1,388 @@
+import type {TranscodeEncoding} from 'node:buffer'
+
 import * as fs from 'node:fs'
+import {StringDecoder} from 'node:string_decoder'
 
 export interface CsvData {
   headers: string[]
   rows: string[][]
 }
 
-export function readCsv(filePath: string): CsvData {
-  const content = fs.readFileSync(filePath, 'utf8')
-  return parseCsvString(content)
+export interface CsvOptions {
+  // Field delimiter (default: ',')
+  delimiter?: string
+  // Character encoding for file and stream input (default: 'utf8')
+  encoding?: TranscodeEncoding
+  // Escape character inside quoted fields (default: same as quote, i.e. "" escapes ")
+  escape?: string
+  // Whether the first record is a header row (default: true); otherwise columns are named column_1..n
+  hasHeader?: boolean
+  // Quote character (default: '"')
+  quote?: string
+  // Pad short rows and drop extra cells instead of failing on ragged rows (default: false)
+  relaxColumnCount?: boolean
+  // Trim whitespace around unquoted fields and outside quotes (default: true)
+  trim?: boolean
 }
 
 /**
- * Parse CSV string content (browser-compatible, no fs dependency)
- * @param content - CSV string content
- * @returns CsvData with headers and rows
+ * Error raised for malformed CSV input, with the 1-based line (and column) where it occurred
  */
-export function parseCsvString(content: string): CsvData {
-  const parsedRows = parseCsv(content)
+export class CsvParseError extends Error {
+  column?: number
+  line: number
 
-  if (parsedRows.length === 0) {
-    throw new Error('CSV content is empty')
+  constructor(message: string, line: number, column?: number) {
+    super(column === undefined ? `Line ${line}: ${message}` : `Line ${line}, column ${column}: ${message}`)
+    this.name = 'CsvParseError'
+    this.line = line
+    this.column = column
   }
+}
 
-  return {
-    headers: parsedRows[0],
-    rows: parsedRows.slice(1),
-  }
+// A parsed record along with the line it started on (used for error reporting)
+export interface CsvRecord {
+  fields: string[]
+  line: number
 }
 
-function parseCsv(content: string): string[][] {
-  const lines = content.trim().split('\n')
-  return lines.map((line) => {
-    // Simple CSV parsing (handles basic cases)
-    // For more complex CSV with quotes and commas inside fields, we'd need a proper parser
-    const cells: string[] = []
-    let current = ''
-    let inQuotes = false
+type ParserState = 'afterQuote' | 'escapeInQuoted' | 'fieldStart' | 'quoted' | 'quoteInQuoted' | 'unquoted'
+
+// Chunk size used when streaming files from disk
+const READ_CHUNK_SIZE = 64 * 1024
+
+/**
+ * Streaming RFC 4180 CSV parser
+ * Feed text with write() as it arrives; each call returns the records completed so far.
+ * Call end() once the input is exhausted to flush the last record.
+ *
+ * Handles quoted fields containing delimiters, quotes ("" or a custom escape character)
+ * and newlines, CRLF/LF/CR line endings, a leading UTF-8 BOM, and chunk boundaries
+ * anywhere in the input.
+ */
+export class CsvParser {
+  private column = 0
+  private readonly delimiter: string
+  private readonly escape: string
+  private field = ''
+  private fieldQuoted = false
+  private fields: string[] = []
+  private line = 1
+  private pendingWhitespace = ''
+  private previousChar = ''
+  private readonly quote: string
+  private quoteLine = 0
+  private recordLine = 1
+  private skipLineFeed = false
+  private started = false
+  private state: ParserState = 'fieldStart'
+  private readonly trim: boolean
+
+  constructor(options: CsvOptions = {}) {
+    this.delimiter = options.delimiter ?? ','
+    this.quote = options.quote ?? '"'
+    this.escape = options.escape ?? this.quote
+    this.trim = options.trim ?? true
+
+    if (this.delimiter.length !== 1 || this.quote.length !== 1 || this.escape.length !== 1) {
+      throw new Error('CSV delimiter, quote and escape must be single characters')
+    }
+
+    if (this.delimiter === this.quote) {
+      throw new Error('CSV delimiter and quote must be different characters')
+    }
+  }
+
+  /**
+   * Flush the final record and check for unterminated quoted fields
+   */
+  end(): CsvRecord[] {
+    const records: CsvRecord[] = []
+
+    if (this.state === 'quoted' || this.state === 'escapeInQuoted') {
+      throw new CsvParseError('Unterminated quoted field', this.quoteLine)
+    }
+
+    this.endRecord(records)
+    return records
+  }
+
+  /**
+   * Feed a chunk of text and return the records it completed
+   */
+  write(chunk: string): CsvRecord[] {
+    const records: CsvRecord[] = []
+    let text = chunk
+
+    // Strip a UTF-8 byte order mark at the very start of the input
+    if (!this.started) {
+      this.started = true
+      if (text.startsWith('\uFEFF')) text = text.slice(1)
+    }
+
+    for (const char of text) {
+      this.consume(char, records)
+      this.previousChar = char
+    }
+
+    return records
+  }
+
+  private consume(char: string, records: CsvRecord[]): void {
+    // Second half of a CRLF pair: the record was already ended on CR
+    if (this.skipLineFeed) {
+      this.skipLineFeed = false
+      if (char === '\n') return
+    }
+
+    this.column++
+
+    switch (this.state) {
+      case 'afterQuote': {
+        this.consumeAfterQuote(char, records)
+        break
+      }
+
+      case 'escapeInQuoted': {
+        this.field += char
+        this.state = 'quoted'
+        this.trackNewline(char)
+        break
+      }
+
+      case 'fieldStart': {
+        this.consumeFieldStart(char, records)
+        break
+      }
+
+      case 'quoted': {
+        this.consumeQuoted(char)
+        break
+      }
+
+      case 'quoteInQuoted': {
+        // With "" escaping a quote followed by a quote is a literal quote, anything else closes the field
+        if (char === this.quote) {
+          this.field += char
+          this.state = 'quoted'
+        } else {
+          this.state = 'afterQuote'
+          this.column--
+          this.consume(char, records)
+        }
+
+        break
+      }
+
+      case 'unquoted': {
+        this.consumeUnquoted(char, records)
+        break
+      }
+    }
+  }
+
+  private consumeAfterQuote(char: string, records: CsvRecord[]): void {
+    if (char === this.delimiter) {
+      this.endField()
+    } else if (char === '\n' || char === '\r') {
+      this.endLine(char, records)
+    } else if (this.trim && (char === ' ' || char === '\t')) {
+      // Whitespace after a closing quote is ignored when trimming
+    } else {
+      throw new CsvParseError(`Unexpected character '${char}' after closing quote`, this.line, this.column)
+    }
+  }
+
+  private consumeFieldStart(char: string, records: CsvRecord[]): void {
+    switch (char) {
+      case '\n':
+      case '\r': {
+        this.endLine(char, records)
+        break
+      }
+
+      case this.delimiter: {
+        this.endField()
+        break
+      }
+
+      case this.quote: {
+        this.fieldQuoted = true
+        this.quoteLine = this.line
+        this.state = 'quoted'
+        break
+      }
+
+      default: {
+        if (this.trim && (char === ' ' || char === '\t')) {
+          // Leading whitespace is kept aside in case the field turns out to be quoted
+          this.pendingWhitespace += char
+        } else {
+          this.field = this.pendingWhitespace + char
+          this.pendingWhitespace = ''
+          this.state = 'unquoted'
+        }
+      }
+    }
+  }
+
+  private consumeQuoted(char: string): void {
+    if (char === this.escape && this.escape !== this.quote) {
+      this.state = 'escapeInQuoted'
+    } else if (char === this.quote) {
+      this.state = this.escape === this.quote ? 'quoteInQuoted' : 'afterQuote'
+    } else {
+      this.field += char
+      this.trackNewline(char)
+    }
+  }
 
-    for (const char of line) {
+  private consumeUnquoted(char: string, records: CsvRecord[]): void {
+    switch (char) {
+      case '\n':
+      case '\r': {
+        this.endLine(char, records)
+        break
+      }
 
-      if (char === '"') {
-        inQuotes = !inQuotes
-      } else if (char === ',' && !inQuotes) {
-        cells.push(current.trim())
-        current = ''
-      } else {
-        current += char
+      case this.delimiter: {
+        this.endField()
+        break
+      }
+
+      case this.quote: {
+        throw new CsvParseError('Unexpected quote in unquoted field', this.line, this.column)
+      }
+
+      default: {
+        this.field += char
       }
     }
+  }
 
-    cells.push(current.trim())
+  private endField(): void {
+    const value = this.fieldQuoted ? this.field : this.field + this.pendingWhitespace
+    this.fields.push(this.trim && !this.fieldQuoted ? value.trim() : value)
+    this.field = ''
+    this.fieldQuoted = false
+    this.pendingWhitespace = ''
+    this.state = 'fieldStart'
+  }
+
+  private endLine(char: string, records: CsvRecord[]): void {
+    this.endRecord(records)
+    this.line++
+    this.column = 0
+    this.recordLine = this.line
+    this.skipLineFeed = char === '\r'
+  }
 
-    return cells
+  private endRecord(records: CsvRecord[]): void {
+    // Skip blank lines (nothing but optional whitespace before the line break)
+    const blank = this.state === 'fieldStart' && this.fields.length === 0 && !this.fieldQuoted
+    this.endField()
+    const {fields} = this
+    this.fields = []
+
+    if (!blank) {
+      records.push({fields, line: this.recordLine})
+    }
+  }
+
+  private trackNewline(char: string): void {
+    // Newlines inside quoted fields still advance the line counter (CRLF counts once)
+    if (char === '\r' || (char === '\n' && this.previousChar !== '\r')) {
+      this.line++
+      this.column = 0
+    }
+  }
+}
+
+/**
+ * Read and parse a CSV file, streaming it from disk in chunks
+ * @param filePath - Path to the CSV file
+ * @param options - Parsing options
+ * @returns CsvData with headers and rows
+ */
+export function readCsv(filePath: string, options: CsvOptions = {}): CsvData {
+  const parser = new CsvParser(options)
+  const decoder = new StringDecoder(options.encoding ?? 'utf8')
+  const records: CsvRecord[] = []
+  const buffer = Buffer.alloc(READ_CHUNK_SIZE)
+  const fd = fs.openSync(filePath, 'r')
+
+  try {
+    let bytesRead = fs.readSync(fd, buffer, 0, READ_CHUNK_SIZE, null)
+    while (bytesRead > 0) {
+      records.push(...parser.write(decoder.write(buffer.subarray(0, bytesRead))))
+      bytesRead = fs.readSync(fd, buffer, 0, READ_CHUNK_SIZE, null)
+    }
+  } finally {
+    fs.closeSync(fd)
+  }
+
+  records.push(...parser.write(decoder.end()), ...parser.end())
+  return buildCsvData(records, options)
+}
+
+/**
+ * Read and parse CSV from a stream (e.g. process.stdin)
+ * @param stream - Readable stream or async iterable of text/Buffer chunks
+ * @param options - Parsing options
+ * @returns CsvData with headers and rows
+ */
+export async function readCsvStream(
+  stream: AsyncIterable<Buffer | string>,
+  options: CsvOptions = {},
+): Promise<CsvData> {
+  const parser = new CsvParser(options)
+  const decoder = new StringDecoder(options.encoding ?? 'utf8')
+  const records: CsvRecord[] = []
+
+  for await (const chunk of stream) {
+    const text = typeof chunk === 'string' ? chunk : decoder.write(chunk)
+    records.push(...parser.write(text))
+  }
+
+  records.push(...parser.write(decoder.end()), ...parser.end())
+  return buildCsvData(records, options)
+}
+
+/**
+ * Parse CSV string content (browser-compatible, no fs dependency)
+ * @param content - CSV string content
+ * @param options - Parsing options
+ * @returns CsvData with headers and rows
+ */
+export function parseCsvString(content: string, options: CsvOptions = {}): CsvData {
+  const parser = new CsvParser(options)
+  const records = [...parser.write(content), ...parser.end()]
+  return buildCsvData(records, options)
+}
+
+/**
+ * Split parsed records into headers and rows, checking that every row has the header's width
+ */
+function buildCsvData(records: CsvRecord[], options: CsvOptions): CsvData {
+  if (records.length === 0) {
+    throw new Error('CSV content is empty')
+  }
+
+  const hasHeader = options.hasHeader ?? true
+  const headers = hasHeader
+    ? records[0].fields
+    : Array.from({length: Math.max(...records.map((r) => r.fields.length))}, (_, i) => `column_${i + 1}`)
+  const dataRecords = hasHeader ? records.slice(1) : records
+
+  const rows = dataRecords.map((record) => {
+    if (record.fields.length === headers.length) return record.fields
+
+    if (!options.relaxColumnCount) {
+      throw new CsvParseError(`Expected ${headers.length} fields but found ${record.fields.length}`, record.line)
+    }
+
+    return headers.map((_, i) => record.fields[i] ?? '')
   })
+
+  return {headers, rows}
 }
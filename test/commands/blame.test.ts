@@ -0,0 +1,72 @@
+/* eslint-disable camelcase */
+import {runCommand} from '@oclif/test'
+import {expect} from 'chai'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import {join} from 'node:path'
+
+import type {TqlConversation} from '../../src/lib/parser/types.js'
+
+import {generateTqlDocument} from '../../src/lib/generators/index.js'
+import {
+  applyChangesToConversation,
+  deleteRowInMemory,
+  insertRowInMemory,
+  updateRowInMemory,
+} from '../../src/lib/operations/crud.js'
+import {writeTql} from '../../src/lib/parser/generator.js'
+
+describe('blame', () => {
+  let dir: string
+  let file: string
+
+  before(() => {
+    dir = fs.mkdtempSync(join(os.tmpdir(), 'tql-blame-'))
+    file = join(dir, 'data.tql')
+
+    const doc = generateTqlDocument({
+      facet: {name: '@table'},
+      source: {data: {headers: ['id', 'amount'], rows: [['1', '10']]}, format: 'csv'},
+    })
+    let conversation: TqlConversation = {sequence: [{'#document[+0]': doc}]}
+    conversation = applyChangesToConversation(conversation, (next) => {
+      insertRowInMemory(next, 'query', {timestamp_utc: '2025-11-11T13:51:24.520Z', user_message: 'Total amount?'})
+    })
+    conversation = applyChangesToConversation(conversation, (next) => {
+      updateRowInMemory(next, 'meaning', 2, {definition: 'Amount in USD'})
+    })
+    // Renumbers the amount row without changing its definition
+    conversation = applyChangesToConversation(conversation, (next) => {
+      deleteRowInMemory(next, 'meaning', 1)
+    })
+    writeTql(file, conversation)
+  })
+
+  after(() => {
+    fs.rmSync(dir, {force: true, recursive: true})
+  })
+
+  it('reports the step that last changed each field as JSON', async () => {
+    const {stdout} = await runCommand(['blame', '--file', file, '--facet', 'meaning', '--json'])
+    const rows = JSON.parse(stdout)
+
+    expect(rows).to.have.length(1)
+    expect(rows[0]).to.include({index: 1, key: 'column=amount'})
+    expect(rows[0].fields).to.deep.equal([
+      {document: 0, field: 'column', value: 'amount'},
+      {
+        diff: '$diff[+1→+2]',
+        document: 2,
+        field: 'definition',
+        query: {timestamp: '2025-11-11T13:51:24.520Z', userMessage: 'Total amount?'},
+        value: 'Amount in USD',
+      },
+    ])
+  })
+
+  it('prints one block per row', async () => {
+    const {stdout} = await runCommand(['blame', '--file', file, '--facet', 'meaning', '--index', '1'])
+    expect(stdout).to.contain('@meaning[1] column=amount')
+    expect(stdout).to.match(/definition {2}#document\[\+2] +\$diff\[\+1→\+2] +Amount in USD {2}"Total amount\?"/)
+  })
+})
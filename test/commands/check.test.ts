@@ -0,0 +1,59 @@
+import {runCommand} from '@oclif/test'
+import {expect} from 'chai'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import {join} from 'node:path'
+
+import type {TqlConversation} from '../../src/lib/parser/types.js'
+
+import {generateTqlDocument} from '../../src/lib/generators/index.js'
+import {applyChangesToConversation, updateRowInMemory} from '../../src/lib/operations/crud.js'
+import {writeTql} from '../../src/lib/parser/generator.js'
+import {parseTql} from '../../src/lib/parser/index.js'
+import {getDocumentCount, getLastDocument} from '../../src/lib/parser/types.js'
+
+describe('check', () => {
+  let dir: string
+  let file: string
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(join(os.tmpdir(), 'tql-check-'))
+    file = join(dir, 'data.tql')
+
+    const doc = generateTqlDocument({
+      facet: {name: '@table'},
+      inferStructure: true,
+      source: {data: {headers: ['id', 'amount'], rows: [['1', '10']]}, format: 'csv'},
+    })
+    const conversation: TqlConversation = {sequence: [{'#document[+0]': doc}]}
+    writeTql(
+      file,
+      applyChangesToConversation(conversation, (next) => {
+        updateRowInMemory(next, 'structure', 2, {minValue: '50'})
+      }),
+    )
+  })
+
+  afterEach(() => {
+    fs.rmSync(dir, {force: true, recursive: true})
+  })
+
+  it('prints violations and exits 1', async () => {
+    const {error, stdout} = await runCommand(['check', '--file', file])
+    expect(stdout).to.contain('@table[1] amount: minValue expected >= 50, got "10"')
+    expect(stdout).to.contain('✗ 1 violation in')
+    expect(error?.oclif?.exit).to.equal(1)
+    expect(getDocumentCount(parseTql(file))).to.equal(2)
+  })
+
+  it('records violations with --record', async () => {
+    const {error, stdout} = await runCommand(['check', '--file', file, '--record', '--json'])
+    expect(JSON.parse(stdout)).to.deep.include({recorded: 2})
+    expect(error?.oclif?.exit).to.equal(1)
+    expect(getLastDocument(parseTql(file))!.ambiguity.rows[0]).to.include({
+      ambiguity_risk: 'medium', // eslint-disable-line camelcase
+      ambiguity_type: 'structure_violation', // eslint-disable-line camelcase
+      query_trigger: 'amount', // eslint-disable-line camelcase
+    })
+  })
+})
@@ -0,0 +1,72 @@
+import {runCommand} from '@oclif/test'
+import {expect} from 'chai'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import {join} from 'node:path'
+
+import {parseTql} from '../../src/lib/parser/index.js'
+import {getLastDocument} from '../../src/lib/parser/types.js'
+
+describe('create', () => {
+  let dir: string
+  let csv: string
+
+  before(() => {
+    dir = fs.mkdtempSync(join(os.tmpdir(), 'tql-create-'))
+    csv = join(dir, 'data.csv')
+    fs.writeFileSync(csv, 'id,amount,status\nTXN-001,120,pending\nTXN-002,75.5,completed\nTXN-003,,pending\n')
+  })
+
+  after(() => {
+    fs.rmSync(dir, {force: true, recursive: true})
+  })
+
+  it('infers @structure rules from the data by default', async () => {
+    const out = join(dir, 'inferred.tql')
+    const {error, stdout} = await runCommand(['create', '--source', 'csv', '--in', csv, '--out', out])
+
+    expect(error).to.equal(undefined)
+    expect(stdout).to.contain(`✓ Created ${out}`)
+    expect(getLastDocument(parseTql(out))!.structure.rows).to.deep.equal([
+      {
+        column: 'id',
+        dataType: 'string',
+        format: 'TXN-###',
+        index: 1,
+        maxValue: '',
+        minValue: '',
+        nullAllowed: 'false',
+      },
+      {
+        column: 'amount',
+        dataType: 'decimal',
+        format: '',
+        index: 2,
+        maxValue: '120',
+        minValue: '75.5',
+        nullAllowed: 'true',
+      },
+      {
+        column: 'status',
+        dataType: 'enum',
+        format: 'completed, pending',
+        index: 3,
+        maxValue: '',
+        minValue: '',
+        nullAllowed: 'false',
+      },
+    ])
+  })
+
+  it('leaves @structure rules blank with --no-infer-structure', async () => {
+    const out = join(dir, 'blank.tql')
+    const {error} = await runCommand(['create', '--source', 'csv', '--in', csv, '--out', out, '--no-infer-structure'])
+
+    expect(error).to.equal(undefined)
+    const {structure} = getLastDocument(parseTql(out))!
+    expect(structure.rows.map((row) => row.column)).to.deep.equal(['id', 'amount', 'status'])
+    expect(structure.rows.every((row) => row.dataType === '' && row.minValue === '' && row.maxValue === '')).to.equal(
+      true,
+    )
+  })
+})
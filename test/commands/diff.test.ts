@@ -0,0 +1,78 @@
+import {runCommand} from '@oclif/test'
+import {expect} from 'chai'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import {join} from 'node:path'
+
+import type {TqlConversation} from '../../src/lib/parser/types.js'
+
+import {generateTqlDocument} from '../../src/lib/generators/index.js'
+import {applyChangesToConversation, updateRowInMemory} from '../../src/lib/operations/crud.js'
+import {writeTql} from '../../src/lib/parser/generator.js'
+
+describe('diff', () => {
+  let dir: string
+  let file: string
+
+  before(() => {
+    dir = fs.mkdtempSync(join(os.tmpdir(), 'tql-diff-'))
+    file = join(dir, 'data.tql')
+
+    const doc = generateTqlDocument({
+      facet: {name: '@table'},
+      source: {data: {headers: ['id', 'amount'], rows: [['1', '10'], ['2', '20']]}, format: 'csv'},
+    })
+    const conversation: TqlConversation = {sequence: [{'#document[+0]': doc}]}
+    writeTql(
+      file,
+      applyChangesToConversation(conversation, (next) => {
+        updateRowInMemory(next, 'meaning', 2, {definition: 'Amount in USD'})
+      }),
+    )
+  })
+
+  after(() => {
+    fs.rmSync(dir, {force: true, recursive: true})
+  })
+
+  it('prints a stat summary and exits 1 when documents differ', async () => {
+    const {error, stdout} = await runCommand(['diff', '--file', file, '--from', '0', '--to', '1', '--format', 'stat'])
+    expect(stdout).to.contain('@meaning')
+    expect(stdout).to.contain('~1 modified')
+    expect(error?.oclif?.exit).to.equal(1)
+  })
+
+  it('prints JSON for two files and exits 0 when they match', async () => {
+    const {error, stdout} = await runCommand(['diff', file, file, '--format', 'json'])
+    expect(JSON.parse(stdout).summary.totalFacetsChanged).to.equal(0)
+    expect(error).to.equal(undefined)
+  })
+
+  it('exits 1 when only @table columns changed', async () => {
+    const doc = generateTqlDocument({
+      facet: {name: '@table'},
+      source: {data: {headers: ['id', 'amount'], rows: [['1', '10']]}, format: 'csv'},
+    })
+    const renamed = structuredClone(doc)
+    renamed.table.rows = doc.table.rows.map(({amount, ...row}) => ({...row, total: amount}))
+    const fileA = join(dir, 'ra.tql')
+    const fileB = join(dir, 'rb.tql')
+    writeTql(fileA, {sequence: [{'#document[+0]': doc}]})
+    writeTql(fileB, {sequence: [{'#document[+0]': renamed}]})
+
+    const {error, stdout} = await runCommand(['diff', fileA, fileB, '--format', 'stat'])
+    expect(stdout).to.contain('@table | columns | amount → total')
+    expect(stdout).to.contain('1 facet changed, 0 row changes')
+    expect(error?.oclif?.exit).to.equal(1)
+  })
+
+  it('reports usage errors without wrapping them and exits 2', async () => {
+    const outOfRange = await runCommand(['diff', '--file', file, '--to', '9'])
+    expect(outOfRange.error?.message).to.match(/^Document index 9 out of range for .*data\.tql \(0-1\)$/)
+    expect(outOfRange.error?.oclif?.exit).to.equal(2)
+
+    const missing = await runCommand(['diff'])
+    expect(missing.error?.message).to.equal('Provide either --file or two TQL files to compare')
+    expect(missing.error?.oclif?.exit).to.equal(2)
+  })
+})
@@ -0,0 +1,54 @@
+/* eslint-disable camelcase */
+import {runCommand} from '@oclif/test'
+import {expect} from 'chai'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import {join} from 'node:path'
+
+import type {TqlConversation} from '../../src/lib/parser/types.js'
+
+import {generateTqlDocument} from '../../src/lib/generators/index.js'
+import {applyChangesToConversation, insertRowInMemory, updateRowInMemory} from '../../src/lib/operations/crud.js'
+import {writeTql} from '../../src/lib/parser/generator.js'
+
+describe('log', () => {
+  let dir: string
+  let file: string
+
+  before(() => {
+    dir = fs.mkdtempSync(join(os.tmpdir(), 'tql-log-'))
+    file = join(dir, 'data.tql')
+
+    const doc = generateTqlDocument({
+      facet: {name: '@table'},
+      source: {data: {headers: ['id', 'amount'], rows: [['1', '10'], ['2', '20']]}, format: 'csv'},
+    })
+    let conversation: TqlConversation = {sequence: [{'#document[+0]': doc}]}
+    conversation = applyChangesToConversation(conversation, (next) => {
+      insertRowInMemory(next, 'query', {timestamp_utc: '2025-11-11T13:51:24.520Z', user_message: 'Total amount?'})
+    })
+    conversation = applyChangesToConversation(conversation, (next) => {
+      updateRowInMemory(next, 'meaning', 2, {definition: 'Amount in USD'})
+    })
+    writeTql(file, conversation)
+  })
+
+  after(() => {
+    fs.rmSync(dir, {force: true, recursive: true})
+  })
+
+  it('lists one entry per document as JSON', async () => {
+    const {stdout} = await runCommand(['log', '--file', file, '--json'])
+    const entries = JSON.parse(stdout)
+    expect(entries.map((e: {document: number}) => e.document)).to.deep.equal([0, 1, 2])
+    expect(entries[1]).to.include({diff: '$diff[+0→+1]', rowsAdded: 1})
+    expect(entries[2].query).to.deep.equal({timestamp: '2025-11-11T13:51:24.520Z', userMessage: 'Total amount?'})
+  })
+
+  it('filters entries by facet', async () => {
+    const {stdout} = await runCommand(['log', '--file', file, '--facet', 'query'])
+    expect(stdout).to.contain('#document[+1]')
+    expect(stdout).not.to.contain('#document[+2]')
+    expect(stdout).to.contain('query:  "Total amount?"')
+  })
+})
@@ -0,0 +1,50 @@
+import {runCommand} from '@oclif/test'
+import {expect} from 'chai'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import {join} from 'node:path'
+
+import type {TqlConversation} from '../../src/lib/parser/types.js'
+
+import {generateTqlDocument} from '../../src/lib/generators/index.js'
+import {applyChangesToConversation, deleteRowInMemory} from '../../src/lib/operations/crud.js'
+import {writeTql} from '../../src/lib/parser/generator.js'
+
+describe('validate', () => {
+  let dir: string
+  let file: string
+
+  before(() => {
+    dir = fs.mkdtempSync(join(os.tmpdir(), 'tql-validate-'))
+    file = join(dir, 'data.tql')
+
+    const doc = generateTqlDocument({
+      facet: {name: '@table'},
+      source: {data: {headers: ['id', 'amount'], rows: [['1', '10']]}, format: 'csv'},
+    })
+    const conversation: TqlConversation = {sequence: [{'#document[+0]': doc}]}
+    writeTql(
+      file,
+      applyChangesToConversation(conversation, (next) => {
+        deleteRowInMemory(next, 'meaning', 2)
+      }),
+    )
+  })
+
+  after(() => {
+    fs.rmSync(dir, {force: true, recursive: true})
+  })
+
+  it('exits 0 when there are only warnings', async () => {
+    const {error, stdout} = await runCommand(['validate', '--file', file])
+    expect(stdout).to.contain('#document[+1] @table: warning Column "amount" has no @meaning row [missing-meaning]')
+    expect(stdout).to.contain('0 errors, 1 warning')
+    expect(error).to.equal(undefined)
+  })
+
+  it('prints JSON and exits 1 on warnings with --strict', async () => {
+    const {error, stdout} = await runCommand(['validate', '--file', file, '--strict', '--json'])
+    expect(JSON.parse(stdout)).to.deep.include({valid: true})
+    expect(error?.oclif?.exit).to.equal(1)
+  })
+})
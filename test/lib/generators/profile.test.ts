@@ -0,0 +1,91 @@
+import {expect} from 'chai'
+
+import {formatEnumValues, matchesDataType, parseEnumValues, profileColumns} from '../../../src/lib/generators/profile.js'
+
+// Profile one column of cells
+function profile(cells: string[]) {
+  return profileColumns(
+    ['value'],
+    cells.map((cell) => [cell]),
+  )[0]
+}
+
+describe('profile', () => {
+  describe('profileColumns', () => {
+    it('infers numeric types with their range and nulls', () => {
+      expect(profile(['1', '15', '', ' 3 '])).to.deep.equal({
+        column: 'value',
+        dataType: 'integer',
+        format: '',
+        maxValue: '15',
+        minValue: '1',
+        nullAllowed: 'true',
+      })
+      expect(profile(['1.5', '-2', '3e2'])).to.include({dataType: 'decimal', maxValue: '3e2', minValue: '-2'})
+      expect(profile(['true', 'FALSE'])).to.include({dataType: 'boolean', maxValue: '', nullAllowed: 'false'})
+    })
+
+    it('infers dates and datetimes with their shape and range', () => {
+      expect(profile(['2024-11-04T08:15:23Z', '2024-11-03T21:00:00Z'])).to.deep.equal({
+        column: 'value',
+        dataType: 'datetime',
+        format: 'YYYY-MM-DDTHH:mm:ssZ',
+        maxValue: '2024-11-04T08:15:23Z',
+        minValue: '2024-11-03T21:00:00Z',
+        nullAllowed: 'false',
+      })
+      expect(profile(['2024-11-04T08:15:23.250+02:00', '2024-11-04T08:15+0200'])).to.include({format: 'ISO-8601'})
+      expect(profile(['2024-11-04', '2024-01-31'])).to.include({
+        dataType: 'date',
+        format: 'YYYY-MM-DD',
+        minValue: '2024-01-31',
+      })
+    })
+
+    it('infers enums from repeated values and ID patterns from strings', () => {
+      expect(profile(['pending', 'completed', 'pending'])).to.include({dataType: 'enum', format: 'completed, pending'})
+      expect(profile(['TXN-2024-001', 'TXN-2024-117', 'TXN-2024-042'])).to.include({
+        dataType: 'string',
+        format: 'TXN-2024-###',
+      })
+      expect(profile(['AB12', 'CD34'])).to.include({dataType: 'string', format: 'AA##'})
+      expect(profile(['Free text', 'More text'])).to.include({dataType: 'string', format: ''})
+    })
+
+    it('escapes commas in enum values', () => {
+      expect(profile(['net, 30', 'prepaid', 'net, 30'])).to.include({
+        dataType: 'enum',
+        format: String.raw`net\, 30, prepaid`,
+      })
+    })
+
+    it('leaves the type of an empty column blank', () => {
+      expect(profile(['', ' '])).to.deep.equal({
+        column: 'value',
+        dataType: '',
+        format: '',
+        maxValue: '',
+        minValue: '',
+        nullAllowed: 'true',
+      })
+    })
+  })
+
+  describe('matchesDataType', () => {
+    it('checks values against their dataType', () => {
+      expect(matchesDataType('42', 'integer')).to.equal(true)
+      expect(matchesDataType('4.2', 'Integer')).to.equal(false)
+      expect(matchesDataType('2024-02-30x', 'date')).to.equal(false)
+      expect(matchesDataType('2024-11-04T08:15:23Z', 'datetime')).to.equal(true)
+      expect(matchesDataType('anything', 'enum')).to.equal(true)
+    })
+  })
+
+  describe('parseEnumValues', () => {
+    it('splits a format on unescaped commas only', () => {
+      const values = ['net, 30', String.raw`C:\temp`, 'prepaid']
+      expect(parseEnumValues(formatEnumValues(values))).to.deep.equal(values)
+      expect(parseEnumValues('completed, pending')).to.deep.equal(['completed', 'pending'])
+    })
+  })
+})
@@ -0,0 +1,75 @@
+import {expect} from 'chai'
+
+import type {TqlConversation} from '../../../src/lib/parser/types.js'
+
+import {generateTqlDocument} from '../../../src/lib/generators/index.js'
+import {applyOperations, parseOperations, TqlOperationError} from '../../../src/lib/operations/apply.js'
+import {getDocumentCount, getLastDocument} from '../../../src/lib/parser/types.js'
+
+describe('applyOperations', () => {
+  let conversation: TqlConversation
+
+  beforeEach(() => {
+    const doc = generateTqlDocument({
+      facet: {name: '@table'},
+      source: {data: {headers: ['id', 'amount', 'status'], rows: [['T1', '10', 'done']]}, format: 'csv'},
+    })
+    conversation = {sequence: [{'#document[+0]': doc}]}
+  })
+
+  it('applies operations across facets as one document and one diff', () => {
+    const operations = parseOperations(
+      [
+        '{"op":"update","facet":"meaning","index":2,"data":{"definition":"Amount in USD"}}',
+        '',
+        '{"op":"update","facet":"meaning","index":3,"data":{"definition":"Settlement status"}}',
+        '{"op":"insert","facet":"context","data":{"key":"timezone","value":"MST"}}',
+        '{"op":"insert","facet":"context","data":{"key":"currency","value":"USD"}}',
+        '{"op":"delete","facet":"context","index":1}',
+      ].join('\n'),
+    )
+
+    const updated = applyOperations(conversation, operations)
+    const last = getLastDocument(updated)!
+
+    expect(getDocumentCount(updated)).to.equal(2)
+    expect(Object.keys(updated.sequence[1])[0]).to.equal('$diff[+0→+1]')
+    expect(last.meaning.rows.map((row) => row.definition)).to.deep.equal(['', 'Amount in USD', 'Settlement status'])
+    expect(last.context.rows).to.deep.equal([{index: 1, key: 'currency', value: 'USD'}])
+  })
+
+  it('applies nothing when any operation is invalid', () => {
+    const operations = parseOperations(
+      [
+        '{"op":"update","facet":"meaning","index":1,"data":{"definition":"Transfer id"}}',
+        '{"op":"update","facet":"meaning","index":9,"data":{"definition":"Missing"}}',
+        '{"op":"delete","facet":"context","indices":[1]}',
+      ].join('\n'),
+    )
+
+    let error: unknown
+    try {
+      applyOperations(conversation, operations)
+    } catch (error_) {
+      error = error_
+    }
+
+    expect(error).to.be.instanceOf(TqlOperationError)
+    expect((error as TqlOperationError).issues).to.deep.equal([
+      {message: 'Row with index 9 not found in @meaning facet', operation: 2},
+      {message: 'No rows found with indices 1 in @context facet', operation: 3},
+    ])
+    expect(getDocumentCount(conversation)).to.equal(1)
+  })
+
+  it('reports malformed lines', () => {
+    expect(() => parseOperations('{"op":"upsert","facet":"meaning"}\nnot json\n{"op":"insert","facet":"data"}'))
+      .to.throw(TqlOperationError)
+      .with.property('issues')
+      .that.deep.equals([
+        {message: 'Unknown op "upsert" (expected insert, update or delete)', operation: 1},
+        {message: 'Invalid JSON', operation: 2},
+        {message: 'Unknown facet "data"', operation: 3},
+      ])
+  })
+})
@@ -0,0 +1,93 @@
+import {expect} from 'chai'
+
+import type {TqlConversation} from '../../../src/lib/parser/types.js'
+
+import {generateTqlDocument} from '../../../src/lib/generators/index.js'
+import {
+  checkoutBranch,
+  createBranch,
+  formatDocumentTree,
+  getDocumentTree,
+  listBranches,
+} from '../../../src/lib/operations/branch.js'
+import {applyChangesToConversation, insertRowInMemory} from '../../../src/lib/operations/crud.js'
+import {verifyConversation} from '../../../src/lib/operations/diff.js'
+import {generateTqlFromConversation} from '../../../src/lib/parser/generator.js'
+import {parseTqlConversationFromString} from '../../../src/lib/parser/index.js'
+import {getLastDocument} from '../../../src/lib/parser/types.js'
+
+function setTimezone(conversation: TqlConversation, value: string): TqlConversation {
+  return applyChangesToConversation(conversation, (doc) => {
+    insertRowInMemory(doc, 'context', {key: 'timezone', value})
+  })
+}
+
+describe('branches', () => {
+  let conversation: TqlConversation
+
+  beforeEach(() => {
+    const doc = generateTqlDocument({
+      facet: {name: '@table'},
+      source: {data: {headers: ['id', 'amount'], rows: [['T1', '10']]}, format: 'csv'},
+    })
+    conversation = applyChangesToConversation({sequence: [{'#document[+0]': doc}]}, (d) => {
+      // eslint-disable-next-line camelcase
+      insertRowInMemory(d, 'query', {timestamp_utc: '2025-01-01T00:00:00Z', user_message: 'What moved yesterday?'})
+    })
+
+    // Explore both readings of "yesterday" from #document[+1]
+    conversation = setTimezone(checkoutBranch(createBranch(conversation, 'mst'), 'mst'), 'MST')
+    conversation = setTimezone(checkoutBranch(conversation, 'main'), 'UTC')
+  })
+
+  it('extends the current branch from its own head', () => {
+    expect(listBranches(conversation)).to.deep.equal([
+      {current: true, head: 3, name: 'main'},
+      {current: false, head: 2, name: 'mst'},
+    ])
+    expect(Object.keys(conversation.sequence[5])[0]).to.equal('$diff[+1→+3]')
+    expect(getLastDocument(conversation)!.context.rows[0].value).to.equal('UTC')
+    expect(getLastDocument(checkoutBranch(conversation, 'mst'))!.context.rows[0].value).to.equal('MST')
+  })
+
+  it('moves no branch when changing a document other than the current head', () => {
+    const next = applyChangesToConversation(
+      conversation,
+      (doc) => {
+        insertRowInMemory(doc, 'context', {key: 'region', value: 'US'})
+      },
+      2,
+    )
+
+    expect(Object.keys(next.sequence.at(-2)!)[0]).to.equal('$diff[+2→+4]')
+    expect(next.branches).to.deep.equal({main: 3, mst: 2})
+    expect(getLastDocument(next)!.context.rows.map((row) => row.value)).to.deep.equal(['UTC'])
+  })
+
+  it('lists the tree of documents', () => {
+    const tree = getDocumentTree(conversation)
+
+    expect(tree.map((node) => node.parent)).to.deep.equal([undefined, 0, 1, 1])
+    expect(formatDocumentTree(tree)).to.equal(
+      ['#document[+0]', '#document[+1]', '├─ #document[+2]  (mst)', '└─ #document[+3]  (* main)'].join('\n'),
+    )
+  })
+
+  it('keeps branches in the #conversation header', () => {
+    const mst = checkoutBranch(conversation, 'mst')
+    const content = generateTqlFromConversation(mst, {encoding: 'compact'})
+    expect(content.split('\n')[0]).to.equal('#conversation[4]: encoding=compact branches=main:3,mst:2 current=mst')
+
+    const reparsed = parseTqlConversationFromString(content)
+    expect(reparsed.branches).to.deep.equal({main: 3, mst: 2})
+    expect(reparsed.currentBranch).to.equal('mst')
+    expect(getLastDocument(reparsed)!.context.rows[0].value).to.equal('MST')
+    expect(verifyConversation(reparsed).valid).to.equal(true)
+  })
+
+  it('rejects unknown and duplicate branches', () => {
+    expect(() => checkoutBranch(conversation, 'pst')).to.throw('Branch pst not found')
+    expect(() => createBranch(conversation, 'mst')).to.throw('Branch mst already exists')
+    expect(() => createBranch(conversation, 'a b')).to.throw('Invalid branch name')
+  })
+})
@@ -0,0 +1,103 @@
+/* eslint-disable camelcase */
+import {expect} from 'chai'
+
+import type {TqlConversation} from '../../../src/lib/parser/types.js'
+
+import {generateTqlDocument} from '../../../src/lib/generators/index.js'
+import {checkConversation, formatStructureViolation} from '../../../src/lib/operations/check.js'
+import {applyChangesToConversation, updateRowInMemory} from '../../../src/lib/operations/crud.js'
+import {validateFacetRow} from '../../../src/lib/parser/registry.js'
+import {getDocumentCount, getLastDocument} from '../../../src/lib/parser/types.js'
+
+describe('checkConversation', () => {
+  let conversation: TqlConversation
+
+  beforeEach(() => {
+    const doc = generateTqlDocument({
+      facet: {name: '@table'},
+      inferStructure: true,
+      source: {
+        data: {
+          headers: ['id', 'amount'],
+          rows: [
+            ['T1', '10'],
+            ['T2', '20'],
+          ],
+        },
+        format: 'csv',
+      },
+    })
+
+    conversation = applyChangesToConversation({sequence: [{'#document[+0]': doc}]}, (d) => {
+      updateRowInMemory(d, 'structure', 2, {maxValue: '15'})
+      d.ambiguity.rows.push({
+        ambiguity_risk: 'high',
+        ambiguity_type: 'scope',
+        description: '',
+        index: 1,
+        query_trigger: 'total',
+      })
+    })
+  })
+
+  it('reports violations of the head document without changing the conversation', () => {
+    const result = checkConversation(conversation)
+
+    expect(result.conversation).to.equal(conversation)
+    expect(result.violations).to.deep.equal([
+      {column: 'amount', expected: '<= 15', row: 2, rule: 'maxValue', value: '20'},
+    ])
+    expect(formatStructureViolation(result.violations[0])).to.equal(
+      '@table[2] amount: maxValue expected <= 15, got "20"',
+    )
+  })
+
+  it('records violations as @ambiguity rows once', () => {
+    const first = checkConversation(conversation, {record: true})
+
+    expect(getDocumentCount(first.conversation)).to.equal(3)
+    expect(getLastDocument(first.conversation)!.ambiguity.rows).to.deep.equal([
+      {ambiguity_risk: 'high', ambiguity_type: 'scope', description: '', index: 1, query_trigger: 'total'},
+      {
+        ambiguity_risk: 'medium',
+        ambiguity_type: 'structure_violation',
+        description: '1 row breaks maxValue (expected <= 15), e.g. row 2: "20"',
+        index: 2,
+        query_trigger: 'amount',
+      },
+    ])
+
+    for (const row of getLastDocument(first.conversation)!.ambiguity.rows) {
+      expect(validateFacetRow('ambiguity', {...row})).to.deep.equal([])
+    }
+
+    const second = checkConversation(first.conversation, {record: true})
+    expect(second.conversation).to.equal(first.conversation)
+  })
+
+  it('clears recorded flags once the data is fixed', () => {
+    const recorded = checkConversation(conversation, {record: true}).conversation
+    const fixed = applyChangesToConversation(recorded, (d) => {
+      updateRowInMemory(d, 'table', 2, {amount: '12'})
+    })
+
+    const result = checkConversation(fixed, {record: true})
+    expect(result.violations).to.deep.equal([])
+    expect(getLastDocument(result.conversation)!.ambiguity.rows.map((r) => r.ambiguity_type)).to.deep.equal(['scope'])
+  })
+
+  it('matches enum values that contain a comma', () => {
+    const doc = generateTqlDocument({
+      facet: {name: '@table'},
+      inferStructure: true,
+      source: {data: {headers: ['terms'], rows: [['net, 30'], ['prepaid'], ['net, 30']]}, format: 'csv'},
+    })
+    const changed = applyChangesToConversation({sequence: [{'#document[+0]': doc}]}, (d) => {
+      updateRowInMemory(d, 'table', 2, {terms: 'net'})
+    })
+
+    expect(checkConversation(changed).violations).to.deep.equal([
+      {column: 'terms', expected: String.raw`one of net\, 30, prepaid`, row: 2, rule: 'format', value: 'net'},
+    ])
+  })
+})
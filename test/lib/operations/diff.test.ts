@@ -0,0 +1,74 @@
+import {expect} from 'chai'
+
+import type {TqlConversation, TqlDocument} from '../../../src/lib/parser/types.js'
+
+import {generateTqlDocument} from '../../../src/lib/generators/index.js'
+import {
+  applyChangesToConversation,
+  deleteRowInMemory,
+  insertRowInMemory,
+  revertToDocument,
+  updateRowInMemory,
+} from '../../../src/lib/operations/crud.js'
+import {applyDiff, diffTqlDocuments, invertDiff} from '../../../src/lib/operations/diff.js'
+import {getDocuments} from '../../../src/lib/parser/types.js'
+
+describe('applyDiff and invertDiff', () => {
+  let before: TqlDocument
+  let after: TqlDocument
+
+  beforeEach(() => {
+    before = generateTqlDocument({
+      facet: {name: '@table'},
+      source: {data: {headers: ['id', 'amount'], rows: [['1', '10'], ['2', '20']]}, format: 'csv'},
+    })
+    insertRowInMemory(before, 'context', {key: 'timezone', value: 'MST'})
+    insertRowInMemory(before, 'context', {key: 'currency', value: 'USD'})
+
+    after = structuredClone(before)
+    updateRowInMemory(after, 'meaning', 2, {definition: 'Amount in USD'})
+    deleteRowInMemory(after, 'context', 1)
+    insertRowInMemory(after, 'tasks', {description: 'Sum amounts', formula: 'SUM(amount)', name: 'total'})
+  })
+
+  it('applies a diff to reproduce the later document', () => {
+    const diff = diffTqlDocuments(before, after)
+    expect(diffTqlDocuments(applyDiff(before, diff), after).summary.totalFacetsChanged).to.equal(0)
+  })
+
+  it('undoes a diff with its inverse', () => {
+    const diff = diffTqlDocuments(before, after)
+    expect(diffTqlDocuments(applyDiff(after, invertDiff(diff)), before).summary.totalFacetsChanged).to.equal(0)
+  })
+
+  it('aligns rows by identity key and reports reindexed rows as moves', () => {
+    insertRowInMemory(before, 'context', {key: 'region', value: 'US'})
+    const trimmed = structuredClone(before)
+    deleteRowInMemory(trimmed, 'context', 1)
+
+    const context = diffTqlDocuments(before, trimmed).facets.find((f) => f.facetName === 'context')!
+    expect(context.changes.map((c) => [c.type, c.index, c.previousIndex])).to.deep.equal([
+      ['moved', 1, 2],
+      ['moved', 2, 3],
+      ['removed', 1, undefined],
+    ])
+    expect(diffTqlDocuments(applyDiff(before, diffTqlDocuments(before, trimmed)), trimmed).summary.totalFacetsChanged).to.equal(0)
+  })
+
+  it('rejects a diff that does not match the document', () => {
+    const diff = diffTqlDocuments(before, after)
+    expect(() => applyDiff(after, diff)).to.throw('Cannot apply diff')
+  })
+
+  it('reverts by appending a copy of an earlier document', () => {
+    let conversation: TqlConversation = {sequence: [{'#document[+0]': before}]}
+    conversation = applyChangesToConversation(conversation, (doc) => {
+      updateRowInMemory(doc, 'meaning', 2, {definition: 'Amount in USD'})
+    })
+
+    const reverted = revertToDocument(conversation, 0)
+    const documents = getDocuments(reverted)
+    expect(documents).to.have.length(3)
+    expect(documents[2]).to.deep.equal(documents[0])
+  })
+})
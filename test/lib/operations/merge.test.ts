@@ -0,0 +1,165 @@
+import {expect} from 'chai'
+
+import type {TqlConversation, TqlDocument} from '../../../src/lib/parser/types.js'
+
+import {generateTqlDocument} from '../../../src/lib/generators/index.js'
+import {checkoutBranch, createBranch} from '../../../src/lib/operations/branch.js'
+import {applyChangesToConversation, insertRowInMemory, updateRowInMemory} from '../../../src/lib/operations/crud.js'
+import {verifyConversation} from '../../../src/lib/operations/diff.js'
+import {mergeConversations} from '../../../src/lib/operations/merge.js'
+import {generateTqlFromConversation} from '../../../src/lib/parser/generator.js'
+import {parseTqlConversationFromString} from '../../../src/lib/parser/index.js'
+import {getDocumentCount, getDocuments, getHeadIndex, getLastDocument} from '../../../src/lib/parser/types.js'
+
+function renameMemo(doc: TqlDocument): void {
+  doc.table.rows = doc.table.rows.map(({memo, ...row}) => ({...row, note: memo}))
+}
+
+describe('mergeConversations', () => {
+  let base: TqlConversation
+
+  beforeEach(() => {
+    const doc = generateTqlDocument({
+      facet: {name: '@table'},
+      source: {data: {headers: ['id', 'amount', 'memo'], rows: [['T1', '10', 'a']]}, format: 'csv'},
+    })
+    base = {sequence: [{'#document[+0]': doc}]}
+  })
+
+  it('combines row changes made on both sides', () => {
+    const ours = applyChangesToConversation(base, (doc) => {
+      updateRowInMemory(doc, 'meaning', 2, {definition: 'Amount in USD'})
+      insertRowInMemory(doc, 'context', {key: 'source', value: 'ledger'})
+    })
+    const theirs = applyChangesToConversation(base, (doc) => {
+      updateRowInMemory(doc, 'meaning', 3, {definition: 'Free-text note'})
+      insertRowInMemory(doc, 'context', {key: 'timezone', value: 'UTC'})
+    })
+
+    const {common, conflicts, conversation} = mergeConversations(base, ours, theirs)
+
+    expect(common).to.equal(0)
+    expect(conflicts).to.deep.equal([])
+    // base, ours, theirs (replayed) and the merged document
+    expect(getDocumentCount(conversation)).to.equal(4)
+
+    const merged = getLastDocument(conversation)!
+    expect(merged.meaning.rows.map((r) => r.definition)).to.deep.equal(['', 'Amount in USD', 'Free-text note'])
+    expect(merged.context.rows.map((r) => [r.index, r.key])).to.deep.equal([
+      [1, 'source'],
+      [2, 'timezone'],
+    ])
+  })
+
+  it('keeps ours and reports rows edited differently on both sides', () => {
+    const ours = applyChangesToConversation(base, (doc) => {
+      updateRowInMemory(doc, 'meaning', 2, {definition: 'Amount in USD'})
+    })
+    const theirs = applyChangesToConversation(base, (doc) => {
+      updateRowInMemory(doc, 'meaning', 2, {definition: 'Amount in thousands of USD'})
+    })
+
+    const {conflicts, conversation} = mergeConversations(base, ours, theirs, {recordConflicts: true})
+
+    expect(conflicts).to.have.length(1)
+    expect(conflicts[0]).to.deep.include({facet: 'meaning', fields: ['definition'], key: 'column=amount'})
+
+    const merged = getLastDocument(conversation)!
+    expect(merged.meaning.rows[1].definition).to.equal('Amount in USD')
+    expect(merged.ambiguity.rows).to.deep.equal([
+      {
+        // eslint-disable-next-line camelcase
+        ambiguity_risk: 'high',
+        // eslint-disable-next-line camelcase
+        ambiguity_type: 'merge_conflict',
+        description: 'ours: definition=Amount in USD; theirs: definition=Amount in thousands of USD',
+        index: 1,
+        // eslint-disable-next-line camelcase
+        query_trigger: '@meaning column=amount',
+      },
+    ])
+
+    // The merged file reads back with diffs matching its documents
+    const reparsed = parseTqlConversationFromString(generateTqlFromConversation(conversation))
+    expect(verifyConversation(reparsed).valid).to.equal(true)
+  })
+
+  it('replays their documents and diffs before the merged document', () => {
+    const ours = applyChangesToConversation(base, (doc) => {
+      updateRowInMemory(doc, 'meaning', 2, {definition: 'Amount in USD'})
+    })
+    let theirs = applyChangesToConversation(base, (doc) => {
+      insertRowInMemory(doc, 'context', {key: 'timezone', value: 'UTC'})
+    })
+    theirs = applyChangesToConversation(theirs, (doc) => {
+      updateRowInMemory(doc, 'context', 1, {value: 'America/New_York'})
+    })
+
+    const {conversation} = mergeConversations(base, ours, theirs)
+
+    expect(conversation.sequence.map((item) => Object.keys(item)[0])).to.deep.equal([
+      '#document[+0]',
+      '$diff[+0→+1]',
+      '#document[+1]',
+      '$diff[+0→+2]',
+      '#document[+2]',
+      '$diff[+2→+3]',
+      '#document[+3]',
+      '$diff[+1→+4]',
+      '#document[+4]',
+    ])
+    expect(getDocuments(conversation)[3].context.rows[0].value).to.equal('America/New_York')
+    expect(getLastDocument(conversation)!.context.rows[0].value).to.equal('America/New_York')
+
+    const reparsed = parseTqlConversationFromString(generateTqlFromConversation(conversation))
+    expect(verifyConversation(reparsed).valid).to.equal(true)
+  })
+
+  it('merges from the head of the checked-out branch', () => {
+    // Ours is on a branch whose head is not the last document
+    let ours = applyChangesToConversation(createBranch(base, 'draft'), (doc) => {
+      updateRowInMemory(doc, 'meaning', 1, {definition: 'Draft'})
+    })
+    ours = applyChangesToConversation(checkoutBranch(ours, 'draft'), (doc) => {
+      updateRowInMemory(doc, 'meaning', 2, {definition: 'Amount in USD'})
+    })
+    ours = checkoutBranch(ours, 'main')
+    const theirs = applyChangesToConversation(base, (doc) => {
+      updateRowInMemory(doc, 'meaning', 3, {definition: 'Free-text note'})
+    })
+
+    const {conversation} = mergeConversations(base, ours, theirs)
+    const head = getHeadIndex(conversation)
+
+    expect(conversation.sequence.map((item) => Object.keys(item)[0]).at(-2)).to.equal(`$diff[+1→+${head}]`)
+    expect(getLastDocument(conversation)!.meaning.rows.map((r) => r.definition)).to.deep.equal([
+      'Draft',
+      '',
+      'Free-text note',
+    ])
+  })
+
+  it('fast-forwards when only one side changed', () => {
+    const theirs = applyChangesToConversation(base, (doc) => {
+      updateRowInMemory(doc, 'meaning', 1, {definition: 'Transfer ID'})
+    })
+
+    expect(mergeConversations(base, base, theirs).conversation).to.equal(theirs)
+    expect(mergeConversations(base, theirs, base).conversation).to.equal(theirs)
+  })
+
+  it('keeps a column rename made on one side', () => {
+    const theirs = applyChangesToConversation(base, renameMemo)
+    expect(mergeConversations(base, base, theirs).conversation).to.equal(theirs)
+
+    const ours = applyChangesToConversation(base, (doc) => {
+      updateRowInMemory(doc, 'meaning', 2, {definition: 'Amount in USD'})
+    })
+    const {conflicts, conversation} = mergeConversations(base, ours, theirs)
+
+    const merged = getLastDocument(conversation)!
+    expect(conflicts).to.deep.equal([])
+    expect(merged.table.rows).to.deep.equal([{amount: '10', id: 'T1', index: 1, note: 'a'}])
+    expect(merged.meaning.rows[1].definition).to.equal('Amount in USD')
+  })
+})
@@ -0,0 +1,113 @@
+/* eslint-disable camelcase */
+import {expect} from 'chai'
+
+import type {TqlDocument} from '../../../src/lib/parser/types.js'
+
+import {generateTqlDocument} from '../../../src/lib/generators/index.js'
+import {
+  applyChangesToConversation,
+  deleteRowInMemory,
+  insertRowInMemory,
+  updateRowInMemory,
+} from '../../../src/lib/operations/crud.js'
+import {diffTqlDocuments, formatDiffAsMarkdown} from '../../../src/lib/operations/diff.js'
+import {jsonPatchToChanges, tqlDiffToJsonPatch} from '../../../src/lib/operations/patch.js'
+import {getLastDocument} from '../../../src/lib/parser/types.js'
+
+function createDocument(headers: string[], rows: string[][]): TqlDocument {
+  return generateTqlDocument({facet: {name: '@table'}, source: {data: {headers, rows}, format: 'csv'}})
+}
+
+describe('JSON Patch', () => {
+  let before: TqlDocument
+
+  beforeEach(() => {
+    before = createDocument(['id', 'amount'], [['T1', '10']])
+    insertRowInMemory(before, 'context', {key: 'timezone', value: 'MST'})
+    insertRowInMemory(before, 'context', {key: 'currency', value: 'USD'})
+    insertRowInMemory(before, 'context', {key: 'region', value: 'US'})
+  })
+
+  it('exports row changes as paths into facet rows', () => {
+    const after = structuredClone(before)
+    updateRowInMemory(after, 'meaning', 2, {definition: 'Amount in USD'})
+    deleteRowInMemory(after, 'context', 1)
+    insertRowInMemory(after, 'context', {key: 'fiscal_year', value: 'July'})
+
+    expect(tqlDiffToJsonPatch(diffTqlDocuments(before, after))).to.deep.equal([
+      {op: 'replace', path: '/meaning/rows/1/definition', value: 'Amount in USD'},
+      {op: 'remove', path: '/context/rows/0'},
+      {op: 'add', path: '/context/rows/2', value: {index: 3, key: 'fiscal_year', value: 'July'}},
+    ])
+  })
+
+  it('applies a patch from an external editor as one diff', () => {
+    const conversation = applyChangesToConversation(
+      {sequence: [{'#document[+0]': before}]},
+      jsonPatchToChanges(before, [
+        {op: 'replace', path: '/meaning/rows/1/definition', value: 'Amount in USD'},
+        {from: '/context/rows/2', op: 'move', path: '/context/rows/0'},
+        {op: 'remove', path: '/context/rows/2'},
+        // Indexes in the patch are replaced by the row position
+        {op: 'add', path: '/context/rows/-', value: {index: '7', key: 'fiscal_year', value: 'July'}},
+        {
+          op: 'add',
+          path: '/ambiguity/rows/-',
+          value: {ambiguity_risk: 'high', ambiguity_type: 'unit', query_trigger: 'amount'},
+        },
+      ]),
+    )
+
+    const last = getLastDocument(conversation)!
+    expect(last.meaning.rows[1].definition).to.equal('Amount in USD')
+    expect(last.context.rows.map((row) => [row.index, row.key])).to.deep.equal([
+      [1, 'region'],
+      [2, 'timezone'],
+      [3, 'fiscal_year'],
+    ])
+    expect(last.ambiguity.rows[0]).to.include({index: 1, query_trigger: 'amount'})
+    expect(Object.keys(conversation.sequence[1])[0]).to.equal('$diff[+0→+1]')
+  })
+
+  it('round-trips diffs, including @table column changes', () => {
+    const table = createDocument(
+      ['id', 'amount', 'memo'],
+      [
+        ['T1', '10', 'a'],
+        ['T2', '20', 'b'],
+        ['T3', '30', 'c'],
+      ],
+    )
+    const after = createDocument(
+      ['id', 'amount_usd', 'fee'],
+      [
+        ['T2', '20', '1'],
+        ['T3', '35', '1'],
+        ['T4', '40', '2'],
+      ],
+    )
+    const diff = diffTqlDocuments(table, after, {tableKey: 'id'})
+
+    const patched = structuredClone(table)
+    jsonPatchToChanges(table, tqlDiffToJsonPatch(diff))(patched)
+
+    expect(formatDiffAsMarkdown(diffTqlDocuments(table, patched, {tableKey: 'id'}), false)).to.equal(
+      formatDiffAsMarkdown(diff, false),
+    )
+  })
+
+  it('rejects patches that do not apply to the document', () => {
+    expect(() =>
+      jsonPatchToChanges(before, [
+        {op: 'replace', path: '/context/rows/0/value', value: 'PST'},
+        {op: 'remove', path: '/context/rows/7'},
+      ]),
+    ).to.throw('Patch operation 2 (remove /context/rows/7): No row at position 7 in @context')
+    expect(() => jsonPatchToChanges(before, [{op: 'add', path: '/data/rows/-', value: {}}])).to.throw(
+      'Unknown facet @data',
+    )
+    expect(() => jsonPatchToChanges(before, [{op: 'test', path: '/context/rows/0/value', value: 'PST'}])).to.throw(
+      'test failed',
+    )
+  })
+})
@@ -0,0 +1,77 @@
+/* eslint-disable camelcase */
+import {expect} from 'chai'
+
+import type {TqlDocument} from '../../../src/lib/parser/types.js'
+
+import {generateTqlDocument} from '../../../src/lib/generators/index.js'
+import {formatRows, parseWhere, queryFacet} from '../../../src/lib/operations/query.js'
+
+describe('queryFacet', () => {
+  let doc: TqlDocument
+
+  beforeEach(() => {
+    doc = generateTqlDocument({
+      facet: {name: '@table'},
+      source: {
+        data: {
+          headers: ['transfer_id', 'stablecoin_type', 'amount_usd', 'memo'],
+          rows: [
+            ['T1', 'USDT', '950000', 'payroll'],
+            ['T2', 'USDC', '2000000', 'treasury'],
+            ['T3', 'USDT', '1200000', 'Treasury, rebalance'],
+            ['T4', 'USDT', '15000000', ''],
+          ],
+        },
+        format: 'csv',
+      },
+    })
+  })
+
+  it('filters, sorts, limits and selects @table rows', () => {
+    const rows = queryFacet(doc, 'table', {
+      limit: 2,
+      select: ['transfer_id', 'amount_usd'],
+      sort: ['-amount_usd'],
+      where: 'stablecoin_type=USDT and amount_usd>1000000',
+    })
+
+    // Amounts compare as numbers, not text
+    expect(rows).to.deep.equal([
+      {amount_usd: '15000000', transfer_id: 'T4'},
+      {amount_usd: '1200000', transfer_id: 'T3'},
+    ])
+  })
+
+  it('supports or, quoted values and contains', () => {
+    expect(queryFacet(doc, 'table', {select: ['transfer_id'], where: "memo ~ treasury or memo = ''"})).to.deep.equal([
+      {transfer_id: 'T2'},
+      {transfer_id: 'T3'},
+      {transfer_id: 'T4'},
+    ])
+    expect(queryFacet(doc, 'meaning', {select: ['column'], where: 'column!=memo'})).to.have.length(3)
+    expect(parseWhere('a>=1 and b="x y" or c~z')).to.deep.equal([
+      [
+        {column: 'a', operator: '>=', value: '1'},
+        {column: 'b', operator: '=', value: 'x y'},
+      ],
+      [{column: 'c', operator: '~', value: 'z'}],
+    ])
+  })
+
+  it('rejects unknown columns and malformed expressions', () => {
+    expect(() => queryFacet(doc, 'table', {where: 'amount>5'})).to.throw('Unknown column "amount"')
+    expect(() => queryFacet(doc, 'table', {where: 'amount_usd>5 and'})).to.throw('misplaced and')
+    expect(() => queryFacet(doc, 'table', {where: 'amount_usd'})).to.throw('Invalid condition')
+  })
+
+  it('formats rows as CSV and aligned tables', () => {
+    const rows = queryFacet(doc, 'table', {select: ['transfer_id', 'memo'], where: 'transfer_id<=T3'})
+
+    expect(formatRows(rows, 'csv')).to.equal(
+      ['transfer_id,memo', 'T1,payroll', 'T2,treasury', 'T3,"Treasury, rebalance"'].join('\n'),
+    )
+    expect(formatRows(rows.slice(0, 2), 'table')).to.equal(
+      ['transfer_id  memo', '-----------  --------', 'T1           payroll', 'T2           treasury'].join('\n'),
+    )
+  })
+})
@@ -0,0 +1,115 @@
+import {expect} from 'chai'
+
+import type {TqlConversation} from '../../../src/lib/parser/types.js'
+
+import {generateTqlDocument} from '../../../src/lib/generators/index.js'
+import {checkStructureRules} from '../../../src/lib/operations/check.js'
+import {applyChangesToConversation, updateRowInMemory} from '../../../src/lib/operations/crud.js'
+import {refreshConversation} from '../../../src/lib/operations/refresh.js'
+import {getDocumentCount, getLastDocument} from '../../../src/lib/parser/types.js'
+
+describe('refreshConversation', () => {
+  let conversation: TqlConversation
+
+  beforeEach(() => {
+    const doc = generateTqlDocument({
+      facet: {name: '@table'},
+      inferStructure: true,
+      source: {
+        data: {
+          headers: ['id', 'amount', 'memo'],
+          rows: [
+            ['T1', '10', 'a'],
+            ['T2', '20', 'b'],
+            ['T3', '30', 'c'],
+            ['T5', '50', 'e'],
+          ],
+        },
+        format: 'csv',
+      },
+    })
+
+    conversation = applyChangesToConversation({sequence: [{'#document[+0]': doc}]}, (d) => {
+      updateRowInMemory(d, 'meaning', 2, {definition: 'Transfer amount in USD'})
+      updateRowInMemory(d, 'meaning', 3, {definition: 'Free-text note'})
+      d.context.rows.push({index: 1, key: 'source', value: 'ledger'})
+    })
+  })
+
+  it('carries annotations forward and flags dropped columns and broken rules', () => {
+    const {conversation: refreshed, report} = refreshConversation(
+      conversation,
+      {
+        headers: ['id', 'amount_usd', 'fee'],
+        rows: [
+          ['T2', '20', '1'],
+          ['T3', '30', '1'],
+          ['T5', '50', '2'],
+          ['T6', '70', ''],
+        ],
+      },
+      {tableKey: 'id'},
+    )
+
+    expect(getDocumentCount(refreshed)).to.equal(3)
+    expect(report.addedColumns).to.deep.equal(['fee'])
+    expect(report.droppedColumns).to.deep.equal(['memo'])
+    expect(report.renamedColumns).to.deep.equal([{from: 'amount', to: 'amount_usd'}])
+    expect(report.violations).to.deep.equal([
+      {column: 'amount_usd', expected: '<= 50', row: 4, rule: 'maxValue', value: '70'},
+    ])
+
+    const doc = getLastDocument(refreshed)!
+    expect(doc.table.rows).to.have.length(4)
+    expect(doc.meaning.rows.map((r) => [r.index, r.column, r.definition])).to.deep.equal([
+      [1, 'id', ''],
+      [2, 'amount_usd', 'Transfer amount in USD'],
+      [3, 'fee', ''],
+      [4, 'memo', 'Free-text note'],
+    ])
+    expect(doc.structure.rows.find((r) => r.column === 'fee')).to.include({dataType: 'integer', nullAllowed: 'true'})
+    expect(doc.context.rows).to.deep.equal([{index: 1, key: 'source', value: 'ledger'}])
+    expect(doc.ambiguity.rows.map((r) => [r.query_trigger, r.ambiguity_type, r.ambiguity_risk])).to.deep.equal([
+      ['memo', 'dropped_column', 'medium'],
+      ['amount_usd', 'structure_violation', 'medium'],
+    ])
+  })
+
+  it('replaces the flags of an earlier refresh', () => {
+    const first = refreshConversation(conversation, {headers: ['id', 'amount'], rows: [['T1', '99']]})
+    expect(getLastDocument(first.conversation)!.ambiguity.rows).to.have.length(2)
+
+    const second = refreshConversation(first.conversation, {
+      headers: ['id', 'amount', 'memo'],
+      rows: [['T1', '10', 'a']],
+    })
+
+    expect(second.report.droppedColumns).to.deep.equal([])
+    expect(second.report.violations).to.deep.equal([])
+    expect(getLastDocument(second.conversation)!.ambiguity.rows).to.deep.equal([])
+  })
+
+  it('checks nulls, data types and formats', () => {
+    const rule = {dataType: '', format: '', index: 1, maxValue: '', minValue: '', nullAllowed: ''}
+    const violations = checkStructureRules(
+      [
+        {...rule, column: 'id', dataType: 'string', format: 'TXN-####', nullAllowed: 'false'},
+        {...rule, column: 'status', dataType: 'enum', format: 'done, pending'},
+        {...rule, column: 'amount', dataType: 'decimal', minValue: '0'},
+      ],
+      [
+        {amount: '1.5', id: 'TXN-0001', index: 1, status: 'done'},
+        {amount: 'n/a', id: '', index: 2, status: 'failed'},
+        {amount: '-2', id: 'TXN-12', index: 3, status: 'pending'},
+      ],
+    )
+
+    expect(violations.map((v) => [v.column, v.row, v.rule])).to.deep.equal([
+      ['id', 2, 'nullAllowed'],
+      ['id', 3, 'format'],
+      ['status', 2, 'format'],
+      ['amount', 2, 'dataType'],
+      ['amount', 3, 'minValue'],
+    ])
+  })
+})
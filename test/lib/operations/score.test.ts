@@ -0,0 +1,133 @@
+/* eslint-disable camelcase */
+import {expect} from 'chai'
+
+import type {TqlDocument} from '../../../src/lib/parser/types.js'
+
+import {generateTqlDocument} from '../../../src/lib/generators/index.js'
+import {applyChangesToConversation, insertRowInMemory, updateRowInMemory} from '../../../src/lib/operations/crud.js'
+import {applyScores, computeScores, isIntentConfirmed} from '../../../src/lib/operations/score.js'
+import {getLastDocument} from '../../../src/lib/parser/types.js'
+
+function intent(query_trigger: string, options: string, user_confirmed = '') {
+  return {clarifying_question: '', options, query_trigger, user_confirmed, user_response: ''}
+}
+
+describe('scores', () => {
+  let doc: TqlDocument
+
+  beforeEach(() => {
+    // Two columns: two blank @meaning rows and two @structure rows without a dataType
+    doc = generateTqlDocument({
+      facet: {name: '@table'},
+      source: {data: {headers: ['id', 'amount'], rows: [['T1', '10']]}, format: 'csv'},
+    })
+  })
+
+  describe('isIntentConfirmed', () => {
+    it('accepts yes and true in any case', () => {
+      const confirmed = ['yes', 'YES', ' true ', 'True'].map((value) =>
+        isIntentConfirmed(intent('x', '', value) as never),
+      )
+      const unconfirmed = ['no', 'false', '', 'maybe'].map((value) =>
+        isIntentConfirmed(intent('x', '', value) as never),
+      )
+
+      expect(confirmed).to.deep.equal([true, true, true, true])
+      expect(unconfirmed).to.deep.equal([false, false, false, false])
+    })
+  })
+
+  describe('computeScores', () => {
+    it('counts blank definitions and data types as open uncertainty', () => {
+      expect(computeScores(doc)).to.deep.equal({
+        missingCertaintyRatio: 0,
+        numberOfInterpretations: 1,
+        rangeValues: '1',
+        uncertaintyRatio: 1,
+      })
+    })
+
+    it('weighs unresolved ambiguities by risk and multiplies their options', () => {
+      updateRowInMemory(doc, 'meaning', 1, {definition: 'Transfer ID'})
+      updateRowInMemory(doc, 'structure', 1, {dataType: 'string'})
+      updateRowInMemory(doc, 'structure', 2, {dataType: 'decimal'})
+
+      // high, 3 options
+      insertRowInMemory(doc, 'ambiguity', {
+        ambiguity_risk: 'high',
+        ambiguity_type: 'temporal',
+        description: '',
+        query_trigger: 'yesterday',
+      })
+      insertRowInMemory(doc, 'intent', intent('yesterday', '[EST, UTC, PST]'))
+      // low, no clarifying question: 2 options
+      insertRowInMemory(doc, 'ambiguity', {
+        ambiguity_risk: 'low',
+        ambiguity_type: 'unit',
+        description: '',
+        query_trigger: 'amount',
+      })
+      // Blank risk weighs as medium; resolved by a confirmed intent
+      insertRowInMemory(doc, 'ambiguity', {
+        ambiguity_risk: '',
+        ambiguity_type: 'scope',
+        description: '',
+        query_trigger: 'fee',
+      })
+      insertRowInMemory(doc, 'intent', intent('FEE', '[gross, net]', 'yes'))
+
+      // Total: ambiguities 3 + 1 + 2, plus 2 @meaning and 2 @structure rows = 10
+      // Open: 3 + 1 unresolved, plus 1 blank definition = 5; answering "yesterday" removes 3
+      expect(computeScores(doc)).to.deep.equal({
+        missingCertaintyRatio: 0.6,
+        numberOfInterpretations: 6,
+        rangeValues: '1-6',
+        uncertaintyRatio: 0.5,
+      })
+    })
+
+    it('treats risk text that is not a level as medium', () => {
+      // Rows written before ambiguity_risk was an enumeration hold free text
+      doc.ambiguity.rows.push({
+        ambiguity_risk: "user's timezone vs UTC",
+        ambiguity_type: 'temporal',
+        description: '',
+        index: 1,
+        query_trigger: 'yesterday',
+      })
+
+      // Open and total: 2 (medium) + 4 blank @meaning/@structure rows
+      expect(computeScores(doc)).to.deep.include({missingCertaintyRatio: 2 / 6, uncertaintyRatio: 1})
+    })
+  })
+
+  describe('applyScores', () => {
+    it('updates the standard measures and leaves custom ones', () => {
+      insertRowInMemory(doc, 'score', {measure: 'custom', value: 'kept'})
+      insertRowInMemory(doc, 'ambiguity', {
+        ambiguity_risk: 'high',
+        ambiguity_type: 'unit',
+        description: '',
+        query_trigger: 'amount',
+      })
+      applyScores(doc)
+
+      expect(Object.fromEntries(doc.score.rows.map((row) => [row.measure, row.value]))).to.deep.equal({
+        custom: 'kept',
+        'Missing Certainty Ratio': '0.43',
+        'number-of-interpretations': '2',
+        'range-values': '1-2',
+        'Uncertainty Ratio (UR)': '1.00',
+      })
+    })
+
+    it('runs for every new document', () => {
+      const conversation = applyChangesToConversation({sequence: [{'#document[+0]': doc}]}, (next) => {
+        updateRowInMemory(next, 'meaning', 1, {definition: 'Transfer ID'})
+      })
+
+      const measure = (name: string) => getLastDocument(conversation)!.score.rows.find((row) => row.measure === name)
+      expect(measure('Uncertainty Ratio (UR)')?.value).to.equal('0.75')
+    })
+  })
+})
@@ -0,0 +1,116 @@
+import {expect} from 'chai'
+
+import type {TqlDocument} from '../../../src/lib/parser/types.js'
+
+import {generateTqlDocument} from '../../../src/lib/generators/index.js'
+import {applyDiff, diffTqlDocuments, formatDiffAsStat, invertDiff} from '../../../src/lib/operations/diff.js'
+import {generateTqlFromConversation} from '../../../src/lib/parser/generator.js'
+import {parseTqlConversationFromString} from '../../../src/lib/parser/index.js'
+import {getDocuments} from '../../../src/lib/parser/types.js'
+
+function createDocument(headers: string[], rows: string[][]): TqlDocument {
+  return generateTqlDocument({facet: {name: '@table'}, source: {data: {headers, rows}, format: 'csv'}})
+}
+
+describe('@table diffs', () => {
+  let before: TqlDocument
+  let after: TqlDocument
+
+  beforeEach(() => {
+    before = createDocument(
+      ['id', 'amount', 'memo'],
+      [
+        ['T1', '10', 'a'],
+        ['T2', '20', 'b'],
+        ['T3', '30', 'c'],
+        ['T5', '50', 'e'],
+      ],
+    )
+    // Weekly refresh: T1 dropped, T3 corrected, T4 new; amount renamed, memo dropped, fee added
+    after = createDocument(
+      ['id', 'amount_usd', 'fee'],
+      [
+        ['T2', '20', '1'],
+        ['T3', '35', '1'],
+        ['T4', '40', '2'],
+        ['T5', '50', '1'],
+      ],
+    )
+  })
+
+  it('matches rows by primary key and reports column changes', () => {
+    const diff = diffTqlDocuments(before, after, {tableKey: 'id'})
+
+    expect(diff.status).to.equal('table_changed')
+    expect(diff.schema).to.deep.include({added: ['fee'], key: 'id', removed: ['memo']})
+    expect(diff.schema!.renamed).to.deep.equal([{from: 'amount', to: 'amount_usd'}])
+
+    const table = diff.facets.find((f) => f.facetName === 'table')!
+    expect(table.changes.map((c) => [c.type, c.after?.id ?? c.before?.id])).to.deep.equal([
+      ['modified', 'T2'],
+      ['modified', 'T3'],
+      ['added', 'T4'],
+      ['modified', 'T5'],
+      ['removed', 'T1'],
+    ])
+    expect(table.changes[1].modifiedFields).to.deep.equal(['amount_usd', 'fee', 'memo'])
+  })
+
+  it('counts column changes without row changes as a @table change', () => {
+    const renamed = structuredClone(before)
+    renamed.table.rows = before.table.rows.map(({amount, ...row}) => ({...row, total: amount}))
+    const rename = diffTqlDocuments(before, renamed, {tableKey: 'id'})
+
+    expect(rename.schema!.renamed).to.deep.equal([{from: 'amount', to: 'total'}])
+    expect(rename.facets.find((f) => f.facetName === 'table')).to.deep.include({changes: [], status: 'modified'})
+    expect(rename.summary.totalFacetsChanged).to.equal(1)
+    expect(applyDiff(before, rename).table.rows).to.deep.equal(renamed.table.rows)
+
+    // A new column whose cells are all empty
+    const widened = structuredClone(before)
+    widened.table.rows = before.table.rows.map((row) => ({...row, note: ''}))
+    const added = diffTqlDocuments(before, widened)
+
+    expect(added.schema).to.deep.include({added: ['note'], removed: [], renamed: []})
+    expect(added.summary.totalFacetsChanged).to.equal(1)
+    expect(formatDiffAsStat(added)).to.equal(
+      [
+        ' @table | columns | +note',
+        ' @table | 4 → 4 rows',
+        ' 1 facet changed, 0 row changes (0 added, 0 modified, 0 removed)',
+      ].join('\n'),
+    )
+  })
+
+  it('rejects an explicit key that does not identify every row', () => {
+    expect(() => diffTqlDocuments(before, after, {tableKey: 'transfer_id'})).to.throw(
+      'Key column "transfer_id" is not in the before @table',
+    )
+    after.table.rows[2].id = ''
+    expect(() => diffTqlDocuments(before, after, {tableKey: 'id'})).to.throw(
+      'Key column "id" is empty in after @table row 3',
+    )
+    after.table.rows[2].id = 'T2'
+    expect(() => diffTqlDocuments(before, after, {tableKey: 'id'})).to.throw(
+      'Key column "id" has duplicate value "T2" in after @table rows 1 and 3',
+    )
+  })
+
+  it('applies and inverts table diffs', () => {
+    const diff = diffTqlDocuments(before, after, {tableKey: 'id'})
+    expect(applyDiff(before, diff).table.rows).to.deep.equal(after.table.rows)
+    expect(applyDiff(after, invertDiff(diff)).table.rows).to.deep.equal(before.table.rows)
+  })
+
+  it('reads table diffs back from a .tql file', () => {
+    const diff = diffTqlDocuments(before, after, {tableKey: 'id'})
+    const content = generateTqlFromConversation({
+      encoding: 'compact',
+      sequence: [{'#document[+0]': before}, {'$diff[+0→+1]': diff}, {'#document[+1]': after}],
+    })
+
+    const documents = getDocuments(parseTqlConversationFromString(content))
+    const expected = getDocuments(parseTqlConversationFromString(generateTqlFromConversation({sequence: [{'#document[+0]': after}]})))
+    expect(documents[1].table.rows).to.deep.equal(expected[0].table.rows)
+  })
+})
@@ -0,0 +1,86 @@
+/* eslint-disable camelcase */
+import {expect} from 'chai'
+
+import type {TqlConversation, TqlDocument} from '../../../src/lib/parser/types.js'
+
+import {generateTqlDocument} from '../../../src/lib/generators/index.js'
+import {applyChangesToConversation, deleteRowInMemory, insertRowInMemory} from '../../../src/lib/operations/crud.js'
+import {refreshConversation} from '../../../src/lib/operations/refresh.js'
+import {formatValidationIssue, validateConversation, validateDocument} from '../../../src/lib/operations/validate.js'
+
+describe('validateDocument', () => {
+  let doc: TqlDocument
+
+  beforeEach(() => {
+    doc = generateTqlDocument({
+      facet: {name: '@table'},
+      source: {data: {headers: ['id', 'amount', 'status'], rows: [['1', '10', 'completed']]}, format: 'csv'},
+    })
+  })
+
+  it('accepts a consistent document', () => {
+    insertRowInMemory(doc, 'query', {timestamp_utc: '', user_message: 'What was the total amount?'})
+    insertRowInMemory(doc, 'intent', {
+      clarifying_question: 'In USD?',
+      options: 'USD, EUR',
+      query_trigger: 'Total Amount',
+      user_confirmed: '',
+      user_response: '',
+    })
+    insertRowInMemory(doc, 'tasks', {description: '', formula: "SUM(amount WHERE status = 'completed')", name: 'total'})
+    insertRowInMemory(doc, 'tasks', {description: '', formula: 'total / 1e3', name: 'total_k'})
+
+    expect(validateDocument(doc)).to.deep.equal({issues: [], valid: true})
+  })
+
+  it('reports inconsistencies between facets', () => {
+    deleteRowInMemory(doc, 'meaning', 3)
+    insertRowInMemory(doc, 'structure', {
+      column: 'fee',
+      dataType: 'decimal',
+      format: '',
+      maxValue: '',
+      minValue: '',
+      nullAllowed: '',
+    })
+    insertRowInMemory(doc, 'intent', {
+      clarifying_question: '',
+      options: '',
+      query_trigger: 'yesterday',
+      user_confirmed: '',
+      user_response: '',
+    })
+    insertRowInMemory(doc, 'tasks', {description: '', formula: 'AVG(amount_usd) + amount', name: 'avg'})
+
+    const {issues, valid} = validateDocument(doc)
+    expect(valid).to.equal(false)
+    expect(issues.map((issue) => formatValidationIssue(issue))).to.deep.equal([
+      '@structure[4]: error Column "fee" is not in @table [unknown-column]',
+      '@table: warning Column "status" has no @meaning row [missing-meaning]',
+      '@tasks[1]: error Formula references "amount_usd", which is not a @table column [unknown-formula-column]',
+      '@intent[1]: warning query_trigger "yesterday" does not appear in any @query user_message [unmatched-query-trigger]',
+    ])
+  })
+
+  it('validates the head document of a conversation unless all documents are asked for', () => {
+    let conversation: TqlConversation = {sequence: [{'#document[+0]': doc}]}
+    conversation = applyChangesToConversation(conversation, (next) => {
+      insertRowInMemory(next, 'meaning', {column: 'fee', definition: 'Fee in USD'})
+    })
+    conversation = applyChangesToConversation(conversation, (next) => {
+      deleteRowInMemory(next, 'meaning', 4)
+    })
+
+    expect(validateConversation(conversation).valid).to.equal(true)
+    const {issues} = validateConversation(conversation, {all: true})
+    expect(issues.map((issue) => [issue.document, issue.code])).to.deep.equal([[1, 'unknown-column']])
+  })
+
+  it('accepts the rows a refresh keeps for dropped columns', () => {
+    const conversation: TqlConversation = {sequence: [{'#document[+0]': doc}]}
+    const refreshed = refreshConversation(conversation, {headers: ['id', 'amount'], rows: [['1', '12']]})
+
+    expect(refreshed.report.droppedColumns).to.deep.equal(['status'])
+    expect(validateConversation(refreshed.conversation)).to.deep.equal({issues: [], valid: true})
+  })
+})
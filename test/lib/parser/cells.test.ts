@@ -0,0 +1,86 @@
+import {expect} from 'chai'
+
+import type {TqlConversation} from '../../../src/lib/parser/types.js'
+
+import {generateTqlDocument} from '../../../src/lib/generators/index.js'
+import {applyChangesToConversation, updateRowInMemory} from '../../../src/lib/operations/crud.js'
+import {diffTqlDocuments, verifyConversation} from '../../../src/lib/operations/diff.js'
+import {coerceCell, formatCell} from '../../../src/lib/parser/cells.js'
+import {generateTqlFromConversation} from '../../../src/lib/parser/generator.js'
+import {parseTqlConversationFromString} from '../../../src/lib/parser/index.js'
+import {getDocuments, getLastDocument} from '../../../src/lib/parser/types.js'
+
+describe('typed cells', () => {
+  let content: string
+
+  beforeEach(() => {
+    const doc = generateTqlDocument({
+      facet: {name: '@table'},
+      source: {
+        data: {
+          headers: ['id', 'amount', 'settled', 'at', 'note'],
+          rows: [
+            ['T1', '10.50', 'true', '2024-11-04T08:15:23Z', 'first'],
+            ['T2', '12345678901234567890', 'FALSE', '2024-11-04T14:42:11.250+02:00', ''],
+          ],
+        },
+        format: 'csv',
+      },
+    })
+    let conversation: TqlConversation = {sequence: [{'#document[+0]': doc}]}
+    conversation = applyChangesToConversation(conversation, (next) => {
+      updateRowInMemory(next, 'structure', 2, {dataType: 'decimal'})
+    })
+    content = generateTqlFromConversation(conversation)
+  })
+
+  it('reads indices as numbers', () => {
+    const [doc] = getDocuments(parseTqlConversationFromString(content))
+    expect(doc.table.rows[0].index).to.equal(1)
+    expect(doc.meaning.rows.map((row) => row.index)).to.deep.equal([1, 2, 3, 4, 5])
+  })
+
+  it('coerces @table cells by their @structure dataType', () => {
+    const doc = getLastDocument(parseTqlConversationFromString(content, {typed: true}))!
+    const [first, second] = doc.table.rows
+
+    expect(first).to.deep.include({amount: 10.5, id: 'T1', index: 1, note: 'first', settled: true})
+    expect(first.at).to.deep.equal(new Date('2024-11-04T08:15:23Z'))
+    // Too large for a number: kept as text; blank: null
+    expect(second).to.deep.include({amount: '12345678901234567890', note: null, settled: false})
+    expect(formatCell(second.at)).to.equal('2024-11-04T12:42:11.250Z')
+  })
+
+  it('keeps typed cells in documents derived from typed ones', () => {
+    const conversation = applyChangesToConversation(parseTqlConversationFromString(content, {typed: true}), (doc) => {
+      updateRowInMemory(doc, 'meaning', 1, {definition: 'Transfer ID'})
+    })
+
+    expect(getLastDocument(conversation)!.table.rows[0].at).to.deep.equal(new Date('2024-11-04T08:15:23Z'))
+  })
+
+  it('keeps datetimes without an offset or finer than milliseconds as text', () => {
+    expect(coerceCell('2024-01-15T10:30:00', 'datetime')).to.equal('2024-01-15T10:30:00')
+    expect(coerceCell('2024-01-15T10:30', 'datetime')).to.equal('2024-01-15T10:30')
+    expect(coerceCell('2024-01-15T10:30:00.123456Z', 'datetime')).to.equal('2024-01-15T10:30:00.123456Z')
+    expect(coerceCell('2024-01-15T10:30:00.123Z', 'datetime')).to.deep.equal(new Date('2024-01-15T10:30:00.123Z'))
+    expect(coerceCell('2024-01-15T10:30:00-0500', 'datetime')).to.deep.equal(new Date('2024-01-15T15:30:00Z'))
+  })
+
+  it('round-trips typed values and compares them with rows built in memory', () => {
+    const conversation = parseTqlConversationFromString(content, {typed: true})
+    const written = generateTqlFromConversation(conversation)
+    const reread = parseTqlConversationFromString(written, {typed: true})
+
+    expect(getDocuments(reread)).to.deep.equal(getDocuments(conversation))
+    expect(verifyConversation(reread).valid).to.equal(true)
+
+    // The same row read as text
+    const doc = getLastDocument(conversation)!
+    const copy = structuredClone(doc)
+    copy.table.rows[1] = Object.fromEntries(
+      Object.entries(doc.table.rows[1]).map(([column, value]) => [column, formatCell(value)]),
+    ) as never
+    expect(diffTqlDocuments(doc, copy).facets[0].status).to.equal('unchanged')
+  })
+})
@@ -0,0 +1,72 @@
+import {expect} from 'chai'
+
+import type {TqlConversation} from '../../../src/lib/parser/types.js'
+
+import {generateTqlDocument} from '../../../src/lib/generators/index.js'
+import {applyChangesToConversation, insertRowInMemory, updateRowInMemory} from '../../../src/lib/operations/crud.js'
+import {TqlParseError} from '../../../src/lib/parser/errors.js'
+import {generateTqlFromConversation} from '../../../src/lib/parser/generator.js'
+import {parseTqlConversationFromString, parseTqlConversationWithDiagnostics} from '../../../src/lib/parser/index.js'
+import {getDocuments} from '../../../src/lib/parser/types.js'
+
+describe('compact encoding', () => {
+  let conversation: TqlConversation
+
+  beforeEach(() => {
+    const doc = generateTqlDocument({
+      facet: {name: '@table'},
+      source: {data: {headers: ['id', 'amount'], rows: [['1', '10'], ['2', '20']]}, format: 'csv'},
+    })
+    conversation = {sequence: [{'#document[+0]': doc}]}
+    conversation = applyChangesToConversation(conversation, (next) => {
+      insertRowInMemory(next, 'context', {key: 'timezone', value: 'MST'})
+    })
+    conversation = applyChangesToConversation(conversation, (next) => {
+      updateRowInMemory(next, 'meaning', 2, {definition: 'Amount | in USD'})
+    })
+  })
+
+  it('stores only the first document in full', () => {
+    const content = generateTqlFromConversation(conversation, {encoding: 'compact'})
+    expect(content.split('\n')[0]).to.equal('#conversation[3]: encoding=compact')
+    expect(content.match(/^#document/gm)).to.have.length(1)
+    expect(content.match(/^@table\[\d+\]:$/gm)).to.have.length(1)
+  })
+
+  it('rebuilds every document from the diffs when parsed', () => {
+    const full = parseTqlConversationFromString(generateTqlFromConversation(conversation))
+    const compact = parseTqlConversationFromString(generateTqlFromConversation(conversation, {encoding: 'compact'}))
+
+    expect(compact.encoding).to.equal('compact')
+    expect(compact.sequence.map((item) => Object.keys(item)[0])).to.deep.equal(
+      full.sequence.map((item) => Object.keys(item)[0]),
+    )
+    expect(getDocuments(compact)).to.deep.equal(getDocuments(full))
+  })
+
+  it('keeps the encoding when changes are appended', () => {
+    const compact = parseTqlConversationFromString(generateTqlFromConversation(conversation, {encoding: 'compact'}))
+    const updated = applyChangesToConversation(compact, (next) => {
+      insertRowInMemory(next, 'context', {key: 'currency', value: 'USD'})
+    })
+
+    const content = generateTqlFromConversation(updated)
+    expect(content.split('\n')[0]).to.equal('#conversation[4]: encoding=compact')
+    expect(getDocuments(parseTqlConversationFromString(content))[3].context.rows).to.have.length(2)
+  })
+
+  it('reports a diff that refers to a missing document with its position', () => {
+    const content = generateTqlFromConversation(conversation, {encoding: 'compact'}).replace(
+      '$diff[+0→+1]:',
+      '$diff[+7→+1]:',
+    )
+    const line = content.split('\n').indexOf('$diff[+7→+1]:') + 1
+
+    expect(() => parseTqlConversationFromString(content))
+      .to.throw(TqlParseError, `<input>:${line}:1: Cannot rebuild #document[+1]: $diff[+7→+1] refers to a missing`)
+      .with.property('code', 'missing-document')
+
+    const {diagnostics} = parseTqlConversationWithDiagnostics(content, {lenient: true})
+    expect(diagnostics.find((diagnostic) => diagnostic.code === 'missing-document')).to.include({line})
+  })
+})
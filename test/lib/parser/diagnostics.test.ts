@@ -0,0 +1,77 @@
+import {expect} from 'chai'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import {join} from 'node:path'
+
+import {formatDiagnostic, TqlParseError} from '../../../src/lib/parser/errors.js'
+import {parseTqlConversationWithDiagnostics, parseTqlWithDiagnostics} from '../../../src/lib/parser/index.js'
+
+// Problems: @meaning[2] with one row (line 3), a diff row without a -/+ marker (line 12)
+// and a diff row with a missing cell (line 13)
+const CONTENT = [
+  '#conversation[2]:',
+  '#document[+0]:',
+  '@meaning[2]:',
+  '| index | column | definition |',
+  '|-------|--------|------------|',
+  '| 1     | id     |            |',
+  '',
+  '$diff[+0→+1]:',
+  '@meaning[1]: modified 1→1',
+  '| Δ | index | column | definition |',
+  '|---|-------|--------|------------|',
+  '| ~ | 1     | id     | x          |',
+  '| + | 1     | id     |',
+  '',
+  '#document[+1]:',
+  '@meaning[1]:',
+  '| index | column | definition |',
+  '|-------|--------|------------|',
+  '| 1     | id     | x          |',
+].join('\n')
+
+describe('parse diagnostics', () => {
+  it('reports problems in documents and diffs as warnings with their positions', () => {
+    const {conversation, diagnostics} = parseTqlConversationWithDiagnostics(CONTENT)
+
+    expect(conversation.sequence).to.have.length(3)
+    expect(diagnostics.map(({code, column, line, severity}) => [code, line, column, severity])).to.deep.equal([
+      ['facet-count', 3, 1, 'warning'],
+      ['unknown-change', 12, 3, 'warning'],
+      ['cell-count', 13, 1, 'warning'],
+    ])
+    expect(diagnostics[2].message).to.equal('Row in $diff @meaning has 3 cells, expected 4')
+  })
+
+  it('throws the first problem in strict mode', () => {
+    expect(() => parseTqlConversationWithDiagnostics(CONTENT, {strict: true}))
+      .to.throw(TqlParseError, '<input>:3:1: @meaning[2] declares 2 rows, but found 1')
+      .with.property('code', 'facet-count')
+  })
+
+  it('throws on a document count mismatch unless lenient', () => {
+    const content = CONTENT.replace('#conversation[2]:', '#conversation[3]:')
+
+    expect(() => parseTqlConversationWithDiagnostics(content))
+      .to.throw(TqlParseError, 'Conversation header indicates 3 documents, but found 2')
+      .with.property('line', 1)
+
+    const {diagnostics} = parseTqlConversationWithDiagnostics(content, {lenient: true})
+    expect(diagnostics.at(-1)).to.deep.include({code: 'conversation-count', severity: 'error'})
+  })
+
+  it('names the file in formatted diagnostics', () => {
+    const dir = fs.mkdtempSync(join(os.tmpdir(), 'tql-diagnostics-'))
+    const file = join(dir, 'data.tql')
+    fs.writeFileSync(file, CONTENT)
+
+    try {
+      const {diagnostics} = parseTqlWithDiagnostics(file)
+      expect(formatDiagnostic(diagnostics[1])).to.equal(
+        `${file}:12:3: warning Diff row starts with "~", expected - or + [unknown-change]`,
+      )
+    } finally {
+      fs.rmSync(dir, {force: true, recursive: true})
+    }
+  })
+})
@@ -0,0 +1,94 @@
+import {expect} from 'chai'
+
+import type {TqlConversation, TqlDiff, TqlDocument} from '../../../src/lib/parser/types.js'
+
+import {generateTqlDocument} from '../../../src/lib/generators/index.js'
+import {
+  applyChangesToConversation,
+  createDiffMetadata,
+  deleteRowInMemory,
+  insertRowInMemory,
+  updateRowInMemory,
+} from '../../../src/lib/operations/crud.js'
+import {verifyConversation} from '../../../src/lib/operations/diff.js'
+import {generateTqlFromConversation} from '../../../src/lib/parser/generator.js'
+import {parseTqlConversationFromString} from '../../../src/lib/parser/index.js'
+
+function defineTransferId(doc: TqlDocument): void {
+  updateRowInMemory(doc, 'meaning', 1, {definition: 'Transfer id'})
+}
+
+// Indices are text once written, so compare them as text
+function normalize(value: unknown): unknown {
+  return JSON.parse(
+    JSON.stringify(value, (key, v) => ((key === 'index' || key === 'previousIndex') && typeof v === 'number' ? String(v) : v)),
+  )
+}
+
+describe('diff serialization', () => {
+  let conversation: TqlConversation
+
+  beforeEach(() => {
+    const doc = generateTqlDocument({
+      facet: {name: '@table'},
+      source: {data: {headers: ['id', 'amount'], rows: [['1', '10'], ['2', '20']]}, format: 'csv'},
+    })
+    insertRowInMemory(doc, 'context', {key: 'timezone', value: 'MST'})
+    insertRowInMemory(doc, 'context', {key: 'currency', value: 'USD'})
+    insertRowInMemory(doc, 'context', {key: 'region', value: 'US'})
+
+    conversation = parseTqlConversationFromString(generateTqlFromConversation({sequence: [{'#document[+0]': doc}]}))
+    conversation = applyChangesToConversation(conversation, (next) => {
+      updateRowInMemory(next, 'meaning', 2, {definition: 'Amount in USD'})
+      updateRowInMemory(next, 'context', 1, {key: 'tz', value: 'PST'})
+      deleteRowInMemory(next, 'context', 2)
+    })
+  })
+
+  it('reads a written diff back unchanged', () => {
+    const written = Object.values(conversation.sequence[1])[0]
+    const read = Object.values(parseTqlConversationFromString(generateTqlFromConversation(conversation)).sequence[1])[0]
+    expect(normalize(read)).to.deep.equal(normalize(written))
+
+    const context = (read as TqlDiff).facets.find((f) => f.facetName === 'context')!
+    expect(context.changes.map((c) => c.type)).to.deep.equal(['added', 'moved', 'removed', 'removed'])
+  })
+
+  it('verifies stored diffs against their documents', () => {
+    const parsed = parseTqlConversationFromString(generateTqlFromConversation(conversation))
+    expect(verifyConversation(parsed).valid).to.equal(true)
+
+    const tampered = parseTqlConversationFromString(
+      generateTqlFromConversation(conversation).replace('| timezone |', '| zone     |'),
+    )
+    const result = verifyConversation(tampered)
+    expect(result.valid).to.equal(false)
+    expect(result.mismatches.map((m) => m.key)).to.deep.equal(['$diff[+0→+1]'])
+  })
+
+  it('keeps change attribution with the diff', () => {
+    const metadata = createDiffMetadata({
+      actor: 'assistant',
+      author: 'analyst-bot',
+      queryIndex: 1,
+      reason: 'User said amounts | totals are in USD',
+      timestamp: '2025-11-11T13:51:24.520Z',
+    })
+    expect(() => applyChangesToConversation(conversation, defineTransferId, undefined, {metadata})).to.throw(
+      'Query index 1 does not match any @query row',
+    )
+    conversation = applyChangesToConversation(conversation, (next) => {
+      insertRowInMemory(next, 'query', {timestamp_utc: '', user_message: 'Amounts are in USD'}) // eslint-disable-line camelcase
+    })
+    conversation = applyChangesToConversation(conversation, defineTransferId, undefined, {metadata})
+
+    const content = generateTqlFromConversation(conversation, {encoding: 'compact'})
+    expect(content).to.contain('@metadata[5]:')
+    expect(content).to.contain(String.raw`| reason     | User said amounts \| totals are in USD |`)
+
+    const parsed = parseTqlConversationFromString(content)
+    expect((Object.values(parsed.sequence[5])[0] as TqlDiff).metadata).to.deep.equal(metadata)
+    expect((Object.values(parsed.sequence[1])[0] as TqlDiff).metadata).to.equal(undefined)
+    expect(verifyConversation(parsed).valid).to.equal(true)
+  })
+})
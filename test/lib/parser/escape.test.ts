@@ -0,0 +1,73 @@
+/* eslint-disable camelcase */
+import {expect} from 'chai'
+
+import type {TqlConversation, TqlDocument} from '../../../src/lib/parser/types.js'
+
+import {generateTqlDocument} from '../../../src/lib/generators/index.js'
+import {applyChangesToConversation, updateRowInMemory} from '../../../src/lib/operations/crud.js'
+import {escapeCell, splitTableRow} from '../../../src/lib/parser/escape.js'
+import {generateTqlFromConversation} from '../../../src/lib/parser/generator.js'
+import {parseTqlConversationFromString} from '../../../src/lib/parser/index.js'
+
+const SAMPLES = [
+  'plain text',
+  'a | b',
+  ' leading and trailing ',
+  'line one\nline two\r\nline three',
+  String.raw`back\slash \| \n literal`,
+  '\ttabbed\t',
+  ' nbsp　',
+  'emoji 🚀 and CJK 漢字 and RTL שלום',
+  '|',
+  '\\',
+  '',
+]
+
+describe('table cell escaping', () => {
+  it('round-trips cells through a table row', () => {
+    const row = '| ' + SAMPLES.map((sample) => escapeCell(sample)).join(' | ') + ' |'
+    expect(row).to.not.include('\n')
+    expect(splitTableRow(row)).to.deep.equal(SAMPLES)
+  })
+
+  it('round-trips definitions, messages and questions through documents and diffs', () => {
+    const doc = generateTqlDocument({
+      facet: {name: '@table'},
+      source: {data: {headers: ['id', 'note'], rows: [['1', 'x | y']]}, format: 'csv'},
+    })
+    let conversation: TqlConversation = {sequence: [{'#document[+0]': doc}]}
+
+    conversation = applyChangesToConversation(conversation, (next) => {
+      for (const [i, sample] of SAMPLES.slice(0, 2).entries()) {
+        updateRowInMemory(next, 'meaning', i + 1, {definition: sample})
+      }
+
+      next.query.rows.push({index: 1, timestamp_utc: '', user_message: SAMPLES[3]})
+      next.intent.rows.push({
+        clarifying_question: SAMPLES[7],
+        index: 1,
+        options: SAMPLES[4],
+        query_trigger: SAMPLES[2],
+        user_confirmed: '',
+        user_response: SAMPLES[5],
+      })
+    })
+
+    const parsed = parseTqlConversationFromString(generateTqlFromConversation(conversation))
+    const last = Object.values(parsed.sequence.at(-1)!)[0] as TqlDocument
+    const diff = Object.values(parsed.sequence[1])[0] as {facets: {changes: {after?: Record<string, string>}[]; facetName: string}[]}
+
+    expect(last.table.rows[0].note).to.equal('x | y')
+    expect(last.meaning.rows.map((row) => row.definition)).to.deep.equal(SAMPLES.slice(0, 2))
+    expect(last.query.rows[0].user_message).to.equal(SAMPLES[3])
+    expect(last.intent.rows[0]).to.include({
+      clarifying_question: SAMPLES[7],
+      options: SAMPLES[4],
+      query_trigger: SAMPLES[2],
+      user_response: SAMPLES[5],
+    })
+
+    const intentDiff = diff.facets.find((facet) => facet.facetName === 'intent')!
+    expect(intentDiff.changes[0].after).to.include({clarifying_question: SAMPLES[7], query_trigger: SAMPLES[2]})
+  })
+})
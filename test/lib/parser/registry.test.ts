@@ -0,0 +1,165 @@
+/* eslint-disable camelcase */
+import {expect} from 'chai'
+
+import type {CustomFacetRow, TqlConversation, TqlDocument} from '../../../src/lib/parser/types.js'
+
+import {generateTqlDocument} from '../../../src/lib/generators/index.js'
+import {
+  applyChangesToConversation,
+  deleteRowsInMemory,
+  insertRowInMemory,
+  updateRowInMemory,
+} from '../../../src/lib/operations/crud.js'
+import {diffTqlDocuments, verifyConversation} from '../../../src/lib/operations/diff.js'
+import {generateTqlFromConversation} from '../../../src/lib/parser/generator.js'
+import {parseTqlConversationFromString} from '../../../src/lib/parser/index.js'
+import {getFacetNames, registerFacet, unregisterFacet, validateFacetRow} from '../../../src/lib/parser/registry.js'
+import {getDocuments, getLastDocument} from '../../../src/lib/parser/types.js'
+
+function tableDocument(): TqlDocument {
+  return generateTqlDocument({
+    facet: {name: '@table'},
+    source: {data: {headers: ['id', 'amount'], rows: [['T1', '10']]}, format: 'csv'},
+  })
+}
+
+describe('facet registry', () => {
+  describe('registerFacet', () => {
+    let conversation: TqlConversation
+
+    before(() => {
+      registerFacet({
+        columns: ['column', 'source'],
+        identityKey: 'column',
+        name: 'lineage',
+        validate: (row) => (row.source?.includes('://') ? undefined : 'source must be a URL'),
+      })
+    })
+
+    after(() => {
+      unregisterFacet('lineage')
+    })
+
+    beforeEach(() => {
+      conversation = applyChangesToConversation({sequence: [{'#document[+0]': tableDocument()}]}, (next) => {
+        insertRowInMemory(next, 'lineage', {column: 'id', source: 'db://ledger/transfers'})
+        insertRowInMemory(next, 'lineage', {column: 'amount', source: 'db://ledger/amounts'})
+      })
+    })
+
+    it('writes, parses and verifies custom facets', () => {
+      expect(getFacetNames().at(-1)).to.equal('lineage')
+
+      const content = generateTqlFromConversation(conversation)
+      expect(content).to.contain('@lineage[2]:\n| index | column | source')
+
+      const parsed = parseTqlConversationFromString(content, {strict: true})
+      const rows = getLastDocument(parsed)!.lineage.rows as CustomFacetRow[]
+      expect(rows.map((row) => row.column)).to.deep.equal(['id', 'amount'])
+      expect(verifyConversation(parsed).valid).to.equal(true)
+    })
+
+    it('aligns rows by the identity key in diffs', () => {
+      const [first, second] = getDocuments(conversation)
+      const after = structuredClone(second)
+      deleteRowsInMemory(after, 'lineage', [1])
+      updateRowInMemory(after, 'lineage', 1, {source: 'db://ledger/amounts_v2'})
+
+      const lineage = diffTqlDocuments(second, after).facets.find((f) => f.facetName === 'lineage')!
+      expect(
+        lineage.changes.map((change) => [change.type, change.after?.column ?? change.before?.column]),
+      ).to.deep.equal([
+        ['modified', 'amount'],
+        ['removed', 'id'],
+      ])
+      expect(first.lineage.rows).to.deep.equal([])
+    })
+
+    it('validates rows and rejects taken names', () => {
+      const doc = structuredClone(getLastDocument(conversation)!)
+      expect(() => insertRowInMemory(doc, 'lineage', {column: 'amount', source: 'spreadsheet'})).to.throw(
+        'Invalid @lineage row: source must be a URL',
+      )
+      expect(() => registerFacet({columns: ['key'], name: 'context'})).to.throw('Facet @context already exists')
+      expect(() => registerFacet({columns: ['key'], name: 'schema'})).to.throw('Facet @schema already exists')
+      expect(() => registerFacet({columns: ['a'], identityKey: 'b', name: 'x'})).to.throw('is not a column of @x')
+    })
+  })
+
+  describe('validateFacetRow', () => {
+    it('rejects unknown fields, missing required fields and values outside an enumeration', () => {
+      expect(() =>
+        insertRowInMemory(tableDocument(), 'context', {foo: 'bar', key: 'tz', value: 'MST'} as never),
+      ).to.throw('Invalid @context row: unknown field foo (allowed: key, value)')
+      expect(() =>
+        insertRowInMemory(tableDocument(), 'ambiguity', {
+          ambiguity_risk: 'urgent',
+          ambiguity_type: '',
+          description: '',
+          query_trigger: 'amount',
+        }),
+      ).to.throw(
+        'Invalid @ambiguity row: ambiguity_type is required; ambiguity_risk must be one of low, medium, high (got "urgent")',
+      )
+      expect(() => insertRowInMemory(tableDocument(), 'table', {amount: '5', id: 'T2', note: 'x'})).to.throw(
+        'unknown field note (allowed: id, amount)',
+      )
+    })
+
+    it('accepts enumerated values in any case and checks only the fields an update changes', () => {
+      const target = tableDocument()
+      insertRowInMemory(target, 'ambiguity', {
+        ambiguity_risk: 'High',
+        ambiguity_type: 'unit',
+        description: '',
+        query_trigger: 'amount',
+      })
+      target.ambiguity.rows[0].ambiguity_risk = 'urgent'
+
+      updateRowInMemory(target, 'ambiguity', 1, {query_trigger: 'amount_usd'})
+      expect(() => updateRowInMemory(target, 'ambiguity', 1, {query_trigger: ''})).to.throw('query_trigger is required')
+      expect(() => updateRowInMemory(target, 'structure', 1, {nullAllowed: 'maybe'})).to.throw(
+        'nullAllowed must be one of true, false (got "maybe")',
+      )
+      expect(validateFacetRow('intent', {query_trigger: 'amount', user_confirmed: 'YES'})).to.deep.equal([])
+    })
+
+    it('escapes commas in the allowed values it reports', () => {
+      registerFacet({columns: ['term'], name: 'terms', values: {term: ['net, 30', 'prepaid']}})
+      try {
+        expect(validateFacetRow('terms', {term: 'net, 30'})).to.deep.equal([])
+        expect(validateFacetRow('terms', {term: 'net'})).to.deep.equal([
+          String.raw`term must be one of net\, 30, prepaid (got "net")`,
+        ])
+      } finally {
+        unregisterFacet('terms')
+      }
+    })
+
+    it('keeps the ambiguity risk a level and describes it in free text', () => {
+      const target = tableDocument()
+      insertRowInMemory(target, 'ambiguity', {
+        ambiguity_risk: 'high',
+        ambiguity_type: 'temporal_perspective',
+        description: "user's timezone vs UTC (data timezone)",
+        query_trigger: 'yesterday',
+      })
+
+      // Files written before @ambiguity had a description column read it as empty
+      const [legacy] = getDocuments(
+        parseTqlConversationFromString(
+          [
+            '#document[+0]:',
+            '@ambiguity[1]:',
+            '| index | query_trigger | ambiguity_type | ambiguity_risk |',
+            '|-------|---------------|----------------|----------------|',
+            '| 1     | amount        | unit           | low            |',
+          ].join('\n'),
+        ),
+      )
+      expect(legacy.ambiguity.rows).to.deep.equal([
+        {ambiguity_risk: 'low', ambiguity_type: 'unit', description: '', index: 1, query_trigger: 'amount'},
+      ])
+    })
+  })
+})
@@ -0,0 +1,120 @@
+import {expect} from 'chai'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import {join} from 'node:path'
+
+import {CsvParseError, parseCsvString, readCsv, readCsvStream} from '../../../src/lib/readers/csv.js'
+
+async function* chunks(parts: (Buffer | string)[]): AsyncIterable<Buffer | string> {
+  yield* parts
+}
+
+describe('csv reader', () => {
+  describe('parseCsvString', () => {
+    it('reads quoted fields with escaped quotes, delimiters and newlines', () => {
+      const csv = 'id,note\n1,"He said ""hi"", then left"\n2,"two\nlines"\n'
+
+      expect(parseCsvString(csv)).to.deep.equal({
+        headers: ['id', 'note'],
+        rows: [
+          ['1', 'He said "hi", then left'],
+          ['2', 'two\nlines'],
+        ],
+      })
+    })
+
+    it('handles CRLF line endings, a BOM, blank lines and whitespace around fields', () => {
+      const csv = '\uFEFFid , name\r\n\r\n 1 ,  " Ada "  \r\n2,Grace\r\n'
+
+      expect(parseCsvString(csv)).to.deep.equal({
+        headers: ['id', 'name'],
+        rows: [
+          ['1', ' Ada '],
+          ['2', 'Grace'],
+        ],
+      })
+    })
+
+    it('uses a custom delimiter', () => {
+      expect(parseCsvString('a;b\n"x;y";2', {delimiter: ';'}).rows).to.deep.equal([['x;y', '2']])
+    })
+
+    it('reports ragged rows with their line, counting newlines inside quotes', () => {
+      const csv = 'a,b\n"1\n2",3\n4\n'
+
+      expect(() => parseCsvString(csv))
+        .to.throw(CsvParseError, 'Line 4: Expected 2 fields but found 1')
+        .with.property('line', 4)
+      expect(parseCsvString(csv, {relaxColumnCount: true}).rows).to.deep.equal([
+        ['1\n2', '3'],
+        ['4', ''],
+      ])
+    })
+
+    it('reports unterminated and misplaced quotes', () => {
+      expect(() => parseCsvString('a,b\n1,"open\n2,3\n')).to.throw(CsvParseError, 'Line 2: Unterminated quoted field')
+      expect(() => parseCsvString('a,b\n1,"x"y\n')).to.throw(
+        CsvParseError,
+        "Line 2, column 6: Unexpected character 'y' after closing quote",
+      )
+      expect(() => parseCsvString('a,b\n1,x"y\n')).to.throw(
+        CsvParseError,
+        'Line 2, column 4: Unexpected quote in unquoted field',
+      )
+    })
+  })
+
+  describe('readCsvStream', () => {
+    it('gives the same result wherever the input is split into chunks', async () => {
+      const csv = '\uFEFFid,note\r\n1,"a ""b""\r\nc"\r\n2,café\r\n'
+      const expected = parseCsvString(csv)
+
+      for (let i = 1; i < csv.length; i++) {
+        // eslint-disable-next-line no-await-in-loop
+        const data = await readCsvStream(chunks([csv.slice(0, i), csv.slice(i)]))
+        expect(data, `split at ${i}`).to.deep.equal(expected)
+      }
+
+      // Buffers split inside a multi-byte character
+      const bytes = Buffer.from(csv)
+      const split = bytes.indexOf(Buffer.from('é')) + 1
+      expect(await readCsvStream(chunks([bytes.subarray(0, split), bytes.subarray(split)]))).to.deep.equal(expected)
+    })
+  })
+
+  describe('readCsv', () => {
+    let dir: string
+
+    before(() => {
+      dir = fs.mkdtempSync(join(os.tmpdir(), 'tql-csv-'))
+    })
+
+    after(() => {
+      fs.rmSync(dir, {force: true, recursive: true})
+    })
+
+    it('reads a file larger than one chunk', () => {
+      const file = join(dir, 'large.csv')
+      const rows = Array.from({length: 5000}, (_, i) => [String(i + 1), `"row ${i + 1}, quoted"`])
+      fs.writeFileSync(file, ['id,note', ...rows.map((row) => row.join(','))].join('\n'))
+
+      const data = readCsv(file)
+      expect(data.headers).to.deep.equal(['id', 'note'])
+      expect(data.rows).to.have.length(5000)
+      expect(data.rows[4999]).to.deep.equal(['5000', 'row 5000, quoted'])
+    })
+
+    it('names columns when there is no header row', () => {
+      const file = join(dir, 'headless.csv')
+      fs.writeFileSync(file, '1,2\n3,4\n')
+
+      expect(readCsv(file, {hasHeader: false})).to.deep.equal({
+        headers: ['column_1', 'column_2'],
+        rows: [
+          ['1', '2'],
+          ['3', '4'],
+        ],
+      })
+    })
+  })
+})